@@ -93,14 +93,22 @@ const umiConfig: IConfig = {
           '/drip-table/schema/columns/data-index',
           '/drip-table/schema/columns/default-value',
           '/drip-table/schema/columns/width',
+          '/drip-table/schema/columns/resizable',
           '/drip-table/schema/columns/align',
           '/drip-table/schema/columns/description',
           '/drip-table/schema/columns/fixed',
           '/drip-table/schema/columns/hidable',
           '/drip-table/schema/columns/filters',
           '/drip-table/schema/columns/default-filtered-value',
+          '/drip-table/schema/columns/sortable',
+          '/drip-table/schema/columns/default-sort-order',
+          '/drip-table/schema/columns/sorter',
+          '/drip-table/schema/columns/editor',
+          '/drip-table/schema/columns/validation',
+          '/drip-table/schema/columns/children',
           '/drip-table/schema/columns/component',
           '/drip-table/schema/columns/options',
+          '/drip-table/schema/summary',
           '/drip-table/schema/bordered',
           '/drip-table/schema/show-header',
           '/drip-table/schema/header/index',
@@ -112,10 +120,19 @@ const umiConfig: IConfig = {
           '/drip-table/schema/sticky',
           '/drip-table/schema/scroll',
           '/drip-table/schema/row-selection',
+          '/drip-table/schema/row-draggable',
           '/drip-table/schema/ellipsis',
+          '/drip-table/schema/resizable',
+          '/drip-table/schema/column-reorderable',
+          '/drip-table/schema/expression-mode',
+          '/drip-table/schema/data-mode',
           '/drip-table/schema/virtual',
+          '/drip-table/schema/keyboard-navigation',
+          '/drip-table/schema/range-selection',
+          '/drip-table/schema/texts',
           '/drip-table/schema/row-key',
           '/drip-table/schema/subtable',
+          '/drip-table/schema/tree',
         ],
       },
       {
@@ -132,11 +149,20 @@ const umiConfig: IConfig = {
           '/drip-table/props/data-source',
           '/drip-table/props/selected-row-keys',
           '/drip-table/props/display-column-keys',
+          '/drip-table/props/column-order',
           '/drip-table/props/total',
           '/drip-table/props/current-page',
+          '/drip-table/props/cursor-pagination',
           '/drip-table/props/loading',
+          '/drip-table/props/aggregators',
+          '/drip-table/props/fetcher',
+          '/drip-table/props/fetcher-options',
+          '/drip-table/props/persistence',
+          '/drip-table/props/data-predicates',
           '/drip-table/props/subtable-props',
           '/drip-table/props/components',
+          '/drip-table/props/editors',
+          '/drip-table/props/validators',
           '/drip-table/props/slots',
           '/drip-table/props/ext',
           '/drip-table/props/sticky',
@@ -154,12 +180,24 @@ const umiConfig: IConfig = {
           '/drip-table/props/on-row-click',
           '/drip-table/props/on-row-double-click',
           '/drip-table/props/on-selection-change',
+          '/drip-table/props/on-select-all-pages-change',
           '/drip-table/props/on-search',
           '/drip-table/props/on-insert-button-click',
           '/drip-table/props/on-filter-change',
           '/drip-table/props/on-page-change',
+          '/drip-table/props/on-cursor-change',
+          '/drip-table/props/on-load-children',
+          '/drip-table/props/on-load-children-error',
+          '/drip-table/props/on-load-more',
+          '/drip-table/props/on-sort-change',
           '/drip-table/props/on-change',
           '/drip-table/props/on-display-column-keys-change',
+          '/drip-table/props/on-validation-error',
+          '/drip-table/props/on-paste-error',
+          '/drip-table/props/on-row-save',
+          '/drip-table/props/on-row-order-change',
+          '/drip-table/props/on-column-order-change',
+          '/drip-table/props/on-column-width-change',
           '/drip-table/props/on-event',
         ],
       },
@@ -0,0 +1,28 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { DatePicker } from 'antd/lib/index';
+import { DripTableDriver, DripTableReactComponentProps } from 'drip-table';
+import moment from 'moment';
+import React from 'react';
+
+type DatePickerProps = DripTableReactComponentProps<DripTableDriver['components']['DatePicker']>;
+
+/**
+ * 日期选择器：drip-table 以格式化后的日期字符串作为值，Ant Design 以 moment 对象作为值
+ */
+const DatePickerAdapter = ({ value, format = 'YYYY-MM-DD', onChange, ...props }: DatePickerProps) => (
+  <DatePicker
+    {...props}
+    format={format}
+    value={value ? moment(value, format) : null}
+    onChange={(date) => { onChange?.(date ? date.format(format) : null); }}
+  />
+);
+
+export default DatePickerAdapter;
@@ -11,8 +11,13 @@ import * as AntDesign from 'antd/lib/index';
 import zhCN from 'antd/lib/locale/zh_CN';
 import { DripTableDriver } from 'drip-table';
 
+import DatePicker from './components/date-picker';
+
 const DripTableDriverAntDesign: DripTableDriver = {
-  components: AntDesign,
+  components: {
+    ...AntDesign,
+    DatePicker,
+  },
   icons: AntDesignIcons,
   locale: zhCN,
 } as unknown as DripTableDriver;
@@ -1,6 +1,6 @@
-import { ConfigProvider } from 'antd';
+import { Alert, ConfigProvider } from 'antd';
 import zhCN from 'antd/lib/locale/zh_CN';
-import { DripTableColumnSchema, DripTableExtraOptions, DripTableRecordTypeBase, DripTableSchema } from 'drip-table';
+import { DripTableColumnSchema, DripTableExtraOptions, DripTableRecordTypeBase, DripTableSchema, flattenColumns, isDripTableColumnGroup } from 'drip-table';
 import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
 
 import { defaultState, DripTableGeneratorState, GlobalStore } from '@/store';
@@ -10,6 +10,13 @@ import { DripTableGeneratorHandler, DripTableGeneratorProps } from '@/typing';
 import { filterAttributes, generateColumn } from './utils';
 import Wrapper, { GeneratorWrapperHandler } from './wrapper';
 
+/**
+ * 判断表格配置是否包含列分组（多级表头），编辑器暂不支持编辑列分组
+ * @param columns 列配置
+ * @returns 是否包含列分组
+ */
+const hasColumnGroup = (columns: readonly unknown[]) => columns.some(column => isDripTableColumnGroup(column));
+
 const useTableRoot = <
 RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase,
 ExtraOptions extends DripTableExtraOptions = DripTableExtraOptions>(
@@ -20,6 +27,10 @@ ExtraOptions extends DripTableExtraOptions = DripTableExtraOptions>(
   const [state, setState] = store;
 
   const getSchemaValue = (): DripTableSchema<DripTableColumnSchema> => {
+    // 包含列分组的配置未载入编辑器，原样返回以免丢失列分组
+    if (props.schema && hasColumnGroup(props.schema.columns)) {
+      return props.schema as DripTableSchema<DripTableColumnSchema>;
+    }
     if (wrapper.current) {
       const currentState = wrapper.current.getState();
       return {
@@ -57,12 +68,13 @@ function Container<RecordType extends DripTableRecordTypeBase, ExtraOptions exte
   props: DripTableGeneratorProps<RecordType, ExtraOptions>,
   ref?: React.ForwardedRef<DripTableGeneratorHandler>,
 ) {
-  if (props.schema && props.schema.columns.some(c => c.component || c.options)) {
+  const unsupported = !!props.schema && hasColumnGroup(props.schema.columns);
+  if (props.schema && !unsupported && flattenColumns(props.schema.columns).some(c => c.component || c.options)) {
     props = {
       ...props,
       schema: {
         ...props.schema,
-        columns: props.schema.columns.map((column) => {
+        columns: flattenColumns(props.schema.columns).map((column) => {
           // 兼容旧版本数据
           if ('ui:type' in column || 'ui:props' in column) {
             const key = column.key;
@@ -96,7 +108,11 @@ function Container<RecordType extends DripTableRecordTypeBase, ExtraOptions exte
   return (
     <ConfigProvider locale={zhCN}>
       <Ctx.Provider {...props} value={context}>
-        <WrapperRef ref={wrapper} {...props} store={store} />
+        {
+          unsupported
+            ? <Alert type="error" showIcon message="暂不支持编辑包含列分组（多级表头）的表格配置，为避免保存时丢失列分组，请移除列分组后再载入编辑器。" />
+            : <WrapperRef ref={wrapper} {...props} store={store} />
+        }
       </Ctx.Provider>
     </ConfigProvider>
   );
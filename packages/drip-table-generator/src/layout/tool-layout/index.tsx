@@ -7,7 +7,7 @@
  */
 
 import { Button, Input, message, Modal } from 'antd';
-import { DripTableColumnSchema, DripTableSchema } from 'drip-table';
+import { DripTableColumnSchema, DripTableSchema, isDripTableColumnGroup } from 'drip-table';
 import React, { useState } from 'react';
 
 import { filterAttributes, generateColumn } from '@/utils';
@@ -90,9 +90,14 @@ const ToolLayout = (props: { store: GlobalStore }) => {
             let hasError = false;
             try {
               const json = JSON.parse(value);
-              state.globalConfigs = filterAttributes(json, ['columns']);
-              state.columns = json.columns?.map((item, index) => ({ index, sort: index, ...item })) as DripTableColumn[];
-              state.currentColumn = void 0;
+              if (Array.isArray(json.columns) && json.columns.some(column => isDripTableColumnGroup(column))) {
+                hasError = true;
+                message.error('暂不支持导入包含列分组（多级表头）的配置');
+              } else {
+                state.globalConfigs = filterAttributes(json, ['columns']);
+                state.columns = json.columns?.map((item, index) => ({ index, sort: index, ...item })) as DripTableColumn[];
+                state.currentColumn = void 0;
+              }
             } catch {
               hasError = true;
               message.error('解析出错, 请传入正确的格式');
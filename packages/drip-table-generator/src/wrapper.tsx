@@ -1,5 +1,5 @@
 import classnames from 'classnames';
-import { DripTableExtraOptions, DripTableRecordTypeBase, DripTableSchema } from 'drip-table';
+import { DripTableExtraOptions, DripTableRecordTypeBase, DripTableSchema, flattenColumns } from 'drip-table';
 import DripTableDriverAntDesign from 'drip-table-driver-antd';
 import React, { useImperativeHandle, useState } from 'react';
 
@@ -41,7 +41,8 @@ ExtraOptions extends DripTableExtraOptions = DripTableExtraOptions,
   const initialData = { previewDataSource: dataSource } as DripTableGeneratorState;
   if (schema) {
     initialData.globalConfigs = filterAttributes(schema, 'columns') as Omit<DripTableSchema<DripTableColumn>, 'columns'>;
-    initialData.columns = schema.columns?.map((item, index) => ({ index, sort: index, ...item }));
+    // 包含列分组的配置不会载入编辑器，此处均为叶子列
+    initialData.columns = schema.columns && flattenColumns(schema.columns).map((item, index) => ({ index, sort: index, ...item }));
   }
   const originState: DripTableGeneratorState = props.store ? props.store[0] : defaultState();
   setState(originState, { ...initialData });
@@ -0,0 +1,83 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import classnames from 'classnames';
+import React from 'react';
+
+import { type DripTableDriver } from '@/types';
+
+import styles from './index.module.less';
+
+export interface CursorPagerProps {
+  driver: DripTableDriver;
+  /**
+   * 每页条数
+   */
+  pageSize: number;
+  /**
+   * 是否存在上一页
+   */
+  hasPrev: boolean;
+  /**
+   * 是否存在下一页
+   */
+  hasNext: boolean;
+  /**
+   * 预估数据总条数，不传时不展示
+   */
+  estimatedTotal?: number;
+  size?: 'small' | 'default';
+  position?: 'bottomLeft' | 'bottomCenter' | 'bottomRight';
+  /**
+   * 是否展示每页条数切换器
+   */
+  showSizeChanger?: boolean;
+  onPrev: () => void;
+  onNext: () => void;
+  onPageSizeChange: (pageSize: number) => void;
+}
+
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+/**
+ * 游标分页器：仅支持上一页、下一页与切换每页条数
+ */
+const CursorPager = (props: CursorPagerProps) => {
+  const Button = props.driver.components.Button;
+  const Select = props.driver.components.Select;
+  const buttonSize = props.size === 'small' ? 'small' : 'middle';
+  const pageSizeOptions = PAGE_SIZE_OPTIONS.includes(props.pageSize)
+    ? PAGE_SIZE_OPTIONS
+    : [...PAGE_SIZE_OPTIONS, props.pageSize].sort((a, b) => a - b);
+  return (
+    <div className={classnames(styles['cursor-pager'], styles[`cursor-pager-${props.position || 'bottomRight'}`])}>
+      {
+        props.estimatedTotal === void 0
+          ? null
+          : <span className={styles['cursor-pager-total']}>{ `约 ${props.estimatedTotal} 条` }</span>
+      }
+      <Button size={buttonSize} disabled={!props.hasPrev} onClick={props.onPrev}>上一页</Button>
+      <Button size={buttonSize} disabled={!props.hasNext} onClick={props.onNext}>下一页</Button>
+      {
+        props.showSizeChanger
+          ? (
+            <Select<number>
+              className={styles['cursor-pager-size-changer']}
+              value={props.pageSize}
+              onChange={props.onPageSizeChange}
+            >
+              { pageSizeOptions.map(pageSize => <Select.Option key={pageSize} value={pageSize}>{ `${pageSize} 条/页` }</Select.Option>) }
+            </Select>
+          )
+          : null
+      }
+    </div>
+  );
+};
+
+export default CursorPager;
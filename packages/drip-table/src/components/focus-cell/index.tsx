@@ -0,0 +1,75 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import classnames from 'classnames';
+import React from 'react';
+
+import styles from './index.module.less';
+
+export interface FocusCellProps {
+  /**
+   * 是否为焦点单元格
+   */
+  focused: boolean;
+  /**
+   * 是否可通过 Tab 键聚焦，同一表格内仅一个单元格可聚焦
+   */
+  tabbable: boolean;
+  /**
+   * 聚焦请求标识：焦点单元格的标识改变且大于 0 时主动获取焦点
+   */
+  focusToken: number;
+  /**
+   * 是否处于单元格选择区域内
+   */
+  selected?: boolean;
+  /**
+   * 单元格或其内部元素获取焦点时触发
+   */
+  onFocus: () => void;
+  onMouseDown?: React.MouseEventHandler<HTMLDivElement>;
+  onMouseEnter?: React.MouseEventHandler<HTMLDivElement>;
+  children: React.ReactNode;
+}
+
+/**
+ * 判断键盘事件是否发生在焦点单元格上（而非单元格内部的输入框等元素）
+ * @param target 事件目标
+ * @returns 是否为焦点单元格
+ */
+export const isFocusCellElement = (target: EventTarget) => target instanceof HTMLElement && target.dataset.dripTableFocusCell !== void 0;
+
+/**
+ * 键盘导航焦点单元格，采用 roving tabindex 模式
+ */
+const FocusCell = (props: FocusCellProps) => {
+  const cellRef = React.useRef<HTMLDivElement>(null);
+
+  // 虚拟滚动模式下单元格可能在滚动后才挂载，挂载时同样检查聚焦请求
+  React.useEffect(() => {
+    if (props.focused && props.focusToken > 0 && cellRef.current && !cellRef.current.contains(document.activeElement)) {
+      cellRef.current.focus();
+    }
+  }, [props.focused, props.focusToken]);
+
+  return (
+    <div
+      ref={cellRef}
+      className={classnames(styles['focus-cell'], { [styles['focus-cell-selected']]: props.selected })}
+      tabIndex={props.tabbable ? 0 : -1}
+      data-drip-table-focus-cell=""
+      onFocus={props.onFocus}
+      onMouseDown={props.onMouseDown}
+      onMouseEnter={props.onMouseEnter}
+    >
+      { props.children }
+    </div>
+  );
+};
+
+export default FocusCell;
@@ -11,6 +11,7 @@ import React from 'react';
 
 import {
   type DripTableDriver,
+  type DripTableExportFormat,
   type DripTableExtraOptions,
   type DripTableRecordTypeBase,
   type DripTableRecordTypeWithSubtable,
@@ -18,6 +19,10 @@ import {
 } from '@/types';
 import RichText from '@/components/rich-text';
 import { type IDripTableContext } from '@/context';
+import { flattenColumnNodes, getSiblingColumnKey, moveColumn, sortColumns } from '@/drip-table/utils/column';
+import { canSelectAllPages, normalizeRowSelection } from '@/drip-table/utils/selection';
+import { formatText, resolveTexts } from '@/drip-table/utils/texts';
+import { buildTreeData, getExpandableTreeRowKeys } from '@/drip-table/utils/tree';
 import { type DripTableProps } from '@/index';
 
 import styles from './index.module.less';
@@ -159,6 +164,75 @@ interface GenericRenderDisplayColumnSelectorElement extends GenericRenderElement
   selectorButtonType?: React.ComponentProps<DripTableDriver['components']['Button']>['type'];
 }
 
+interface GenericRenderExportButtonElement extends GenericRenderElementBasic {
+  /**
+   * 导出按钮
+   */
+  type: 'export-button';
+  /**
+   * 导出按钮文案，默认为 schema.texts.exportButton
+   */
+  exportButtonText?: string;
+  /**
+   * 导出按钮样式
+   */
+  exportButtonType?: React.ComponentProps<DripTableDriver['components']['Button']>['type'];
+  /**
+   * 是否展示图标
+   */
+  showIcon?: boolean;
+  /**
+   * 可选导出格式，多个格式时展示下拉菜单
+   */
+  formats?: DripTableExportFormat[];
+  /**
+   * 导出文件名（不含扩展名）
+   */
+  filename?: string;
+  /**
+   * 仅导出已选中的行
+   */
+  selectedOnly?: boolean;
+  /**
+   * 导出所有页数据
+   */
+  allPages?: boolean;
+  /**
+   * 同时导出用户隐藏的列
+   */
+  includeHidden?: boolean;
+}
+
+interface GenericRenderSelectionSummaryElement extends GenericRenderElementBasic {
+  /**
+   * 选中行统计，未选中任何行时不展示
+   */
+  type: 'selection-summary';
+  /**
+   * 跨页全选操作文案，默认为 schema.texts.selectAllPages
+   */
+  selectAllPagesText?: string;
+  /**
+   * 清空选择操作文案，默认为 schema.texts.selectionClear
+   */
+  clearText?: string;
+}
+
+interface GenericRenderTreeExpandButtonElement extends GenericRenderElementBasic {
+  /**
+   * 树形数据展开全部、收起全部按钮，全部展开时展示收起全部
+   */
+  type: 'tree-expand-button';
+  /**
+   * 展开全部按钮文案，默认为 schema.texts.treeExpandAll
+   */
+  expandText?: string;
+  /**
+   * 收起全部按钮文案，默认为 schema.texts.treeCollapseAll
+   */
+  collapseText?: string;
+}
+
 export type DripTableGenericRenderElement =
   | GenericRenderSpacerElement
   | GenericRenderTextElement
@@ -166,7 +240,10 @@ export type DripTableGenericRenderElement =
   | GenericRenderSearchElement
   | GenericRenderSlotElement
   | GenericRenderInsertButtonElement
-  | GenericRenderDisplayColumnSelectorElement;
+  | GenericRenderDisplayColumnSelectorElement
+  | GenericRenderExportButtonElement
+  | GenericRenderSelectionSummaryElement
+  | GenericRenderTreeExpandButtonElement;
 
 interface GenericRenderProps<
   RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
@@ -194,14 +271,20 @@ const GenericRender = <
   const CheckOutlined = tableProps.driver.icons.CheckOutlined;
   const Col = tableProps.driver.components.Col;
   const DownOutlined = tableProps.driver.icons.DownOutlined;
+  const DownloadOutlined = tableProps.driver.icons.DownloadOutlined;
   const Dropdown = tableProps.driver.components.Dropdown;
   const Input = tableProps.driver.components.Input;
   const Menu = tableProps.driver.components.Menu;
   const PlusOutlined = tableProps.driver.icons.PlusOutlined;
   const Row = tableProps.driver.components.Row;
   const Select = tableProps.driver.components.Select;
+  const UpOutlined = tableProps.driver.icons.UpOutlined;
+
+  const message = tableProps.driver.components.message;
+  const texts = React.useMemo(() => resolveTexts(tableProps.schema.texts), [tableProps.schema.texts]);
 
   const [displayColumnVisible, setDisplayColumnVisible] = React.useState(false);
+  const [exporting, setExporting] = React.useState(false);
 
   const [searchStr, setSearchStr] = React.useState('');
   const [searchKey, setSearchKey] = React.useState<GenericRenderSearchElement['searchKeyDefaultValue']>(props.schemas.map(s => (s.type === 'search' ? s.searchKeyDefaultValue : '')).find(s => s));
@@ -244,7 +327,14 @@ const GenericRender = <
             size={config.searchButtonSize}
             value={searchStr}
             onChange={e => setSearchStr(e.target.value.trim())}
-            onSearch={(value) => { tableProps.onSearch?.({ searchKey, searchStr: value }, tableInfo); }}
+            onSearch={(value) => {
+              setTableState(state => ({
+                search: { searchKey, searchStr: value },
+                pagination: { ...state.pagination, current: 1 },
+                cursorPagination: { ...state.cursorPagination, cursor: null, history: [] },
+              }));
+              tableProps.onSearch?.({ searchKey, searchStr: value }, tableInfo);
+            }}
           />
         </div>
       );
@@ -283,13 +373,26 @@ const GenericRender = <
     }
 
     if (config.type === 'display-column-selector') {
-      const hidableColumns = tableProps.schema.columns.filter(c => c.hidable);
+      const reorderable = tableProps.schema.columnReorderable;
+      const orderedColumns = sortColumns(tableProps.schema.columns, tableProps.columnOrder || tableState.columnOrder);
+      const hidableColumns = flattenColumnNodes(orderedColumns).filter(n => reorderable || n.column.hidable);
       if (hidableColumns.length === 0) {
         return null;
       }
+      const onColumnMove = (key: string, offset: number) => {
+        const targetKey = getSiblingColumnKey(orderedColumns, key, offset);
+        const columnOrder = targetKey === void 0 ? null : moveColumn(orderedColumns, key, targetKey);
+        if (columnOrder) {
+          setTableState({ columnOrder });
+          tableProps.onColumnOrderChange?.(columnOrder, tableInfo);
+        }
+      };
       const menu = (
         <Menu
           onClick={(e) => {
+            if (!hidableColumns.find(n => n.column.key === e.key)?.column.hidable) {
+              return;
+            }
             setTableState((state) => {
               const displayColumnKeys = state.displayColumnKeys.filter(k => k !== e.key) || [];
               if (!state.displayColumnKeys.includes(e.key)) {
@@ -301,12 +404,36 @@ const GenericRender = <
           }}
         >
           {
-            hidableColumns.map(column => (
+            hidableColumns.map(({ column, depth }) => (
               <Menu.Item
                 key={column.key}
-                icon={<span style={{ opacity: tableState.displayColumnKeys.includes(column.key) ? 1 : 0 }}><CheckOutlined /></span>}
+                icon={<span style={{ opacity: !column.hidable || tableState.displayColumnKeys.includes(column.key) ? 1 : 0 }}><CheckOutlined /></span>}
               >
-                { column.title }
+                <span style={{ paddingLeft: depth * 16 }}>{ column.title }</span>
+                {
+                  reorderable
+                    ? (
+                      <span className={styles['generic-render-display-column-selector-element__reorder']}>
+                        <Button
+                          type="text"
+                          size="small"
+                          title={texts.moveColumnUp}
+                          icon={<UpOutlined />}
+                          disabled={getSiblingColumnKey(orderedColumns, column.key, -1) === void 0}
+                          onClick={(e) => { e.stopPropagation(); onColumnMove(column.key, -1); }}
+                        />
+                        <Button
+                          type="text"
+                          size="small"
+                          title={texts.moveColumnDown}
+                          icon={<DownOutlined />}
+                          disabled={getSiblingColumnKey(orderedColumns, column.key, 1) === void 0}
+                          onClick={(e) => { e.stopPropagation(); onColumnMove(column.key, 1); }}
+                        />
+                      </span>
+                    )
+                    : null
+                }
               </Menu.Item>
             ))
           }
@@ -328,6 +455,120 @@ const GenericRender = <
       );
     }
 
+    if (config.type === 'export-button') {
+      const formats: DripTableExportFormat[] = config.formats && config.formats.length > 0 ? config.formats : ['csv'];
+      const exportData = (format: DripTableExportFormat) => {
+        setExporting(true);
+        tableState.exportData(format, {
+          filename: config.filename,
+          selectedOnly: config.selectedOnly,
+          allPages: config.allPages,
+          includeHidden: config.includeHidden,
+        })
+          .catch(() => { message.error(texts.exportFailed); })
+          .finally(() => { setExporting(false); });
+      };
+      const buttonText = config.exportButtonText || texts.exportButton;
+      if (formats.length === 1) {
+        return (
+          <Button
+            className={styles['generic-render-export-button-element']}
+            type={config.exportButtonType}
+            icon={config.showIcon && <DownloadOutlined />}
+            loading={exporting}
+            onClick={() => exportData(formats[0])}
+          >
+            { buttonText }
+          </Button>
+        );
+      }
+      return (
+        <Dropdown
+          className={styles['generic-render-export-button-element']}
+          trigger={['click']}
+          overlay={(
+            <Menu onClick={(e) => { exportData(e.key as DripTableExportFormat); }}>
+              { formats.map(format => <Menu.Item key={format}>{ format.toUpperCase() }</Menu.Item>) }
+            </Menu>
+          )}
+        >
+          <Button
+            type={config.exportButtonType}
+            icon={config.showIcon && <DownloadOutlined />}
+            loading={exporting}
+          >
+            { buttonText }
+            <DownOutlined />
+          </Button>
+        </Dropdown>
+      );
+    }
+
+    if (config.type === 'selection-summary') {
+      const rowSelection = normalizeRowSelection(tableProps.schema.rowSelection);
+      const allPagesEnabled = canSelectAllPages(rowSelection);
+      const selectAllPages = allPagesEnabled && tableState.selectAllPages;
+      const total = tableProps.total ?? tableProps.dataSource.length;
+      const count = selectAllPages
+        ? Math.max(total - tableState.excludedRowKeys.length, 0)
+        : (tableProps.selectedRowKeys || tableState.selectedRowKeys).length;
+      if (!rowSelection || count === 0) {
+        return null;
+      }
+      return (
+        <span className={styles['generic-render-selection-summary-element']}>
+          { formatText(texts.selectionCount, { count }) }
+          {
+            allPagesEnabled && !selectAllPages && count < total
+              ? (
+                <Button
+                  type="link"
+                  size="small"
+                  onClick={() => {
+                    setTableState({ selectAllPages: true, excludedRowKeys: [] });
+                    tableProps.onSelectAllPagesChange?.(true, [], tableInfo);
+                  }}
+                >
+                  { formatText(config.selectAllPagesText || texts.selectAllPages, { total }) }
+                </Button>
+              )
+              : null
+          }
+          <Button
+            type="link"
+            size="small"
+            onClick={() => {
+              setTableState({ selectedRowKeys: [], selectAllPages: false, excludedRowKeys: [] });
+              if (selectAllPages) {
+                tableProps.onSelectAllPagesChange?.(false, [], tableInfo);
+              }
+              tableProps.onSelectionChange?.([], [], tableInfo);
+            }}
+          >
+            { config.clearText || texts.selectionClear }
+          </Button>
+        </span>
+      );
+    }
+
+    if (config.type === 'tree-expand-button') {
+      const tree = tableProps.schema.tree;
+      if (!tree) {
+        return null;
+      }
+      const rowKey = tableProps.schema.rowKey ?? 'key';
+      const keys = getExpandableTreeRowKeys(buildTreeData(tableProps.dataSource, tree, rowKey, tableState.loadedChildren), tree, rowKey);
+      const expanded = keys.length > 0 && keys.every(key => tableState.expandedRowKeys.includes(key));
+      return (
+        <Button
+          disabled={keys.length === 0}
+          onClick={() => { setTableState({ expandedRowKeys: expanded ? [] : keys }); }}
+        >
+          { expanded ? config.collapseText || texts.treeCollapseAll : config.expandText || texts.treeExpandAll }
+        </Button>
+      );
+    }
+
     return null;
   };
 
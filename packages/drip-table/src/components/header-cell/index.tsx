@@ -0,0 +1,155 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import classnames from 'classnames';
+import React from 'react';
+
+import styles from './index.module.less';
+
+export interface HeaderCellProps extends React.ThHTMLAttributes<HTMLTableHeaderCellElement> {
+  /**
+   * 是否可拖拽调整列宽
+   */
+  resizable?: boolean;
+  /**
+   * 最小列宽
+   */
+  minWidth?: number;
+  /**
+   * 最大列宽
+   */
+  maxWidth?: number;
+  /**
+   * 拖拽调整列宽过程中触发
+   */
+  onResize?: (width: number) => void;
+  /**
+   * 拖拽调整列宽结束时触发
+   */
+  onResizeEnd?: (width: number) => void;
+  /**
+   * 列 key，拖拽调整列顺序时使用
+   */
+  columnKey?: string;
+  /**
+   * 是否可拖拽调整列顺序
+   */
+  reorderable?: boolean;
+  /**
+   * 拖拽列到当前列位置时触发
+   */
+  onColumnMove?: (sourceKey: string, targetKey: string) => void;
+}
+
+const DRAG_DATA_TYPE = 'application/x-drip-table-column';
+
+/**
+ * 表头单元格，支持拖拽调整列宽、列顺序
+ */
+const HeaderCell = ({
+  resizable,
+  minWidth,
+  maxWidth,
+  onResize,
+  onResizeEnd,
+  columnKey,
+  reorderable,
+  onColumnMove,
+  className,
+  children,
+  ...props
+}: HeaderCellProps) => {
+  const cellRef = React.useRef<HTMLTableHeaderCellElement>(null);
+  const [dragOver, setDragOver] = React.useState(false);
+
+  const onMouseDown: React.MouseEventHandler<HTMLSpanElement> = (e) => {
+    const $cell = cellRef.current;
+    if (!$cell) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = $cell.getBoundingClientRect().width;
+    let width = startWidth;
+    const onMouseMove = (ev: MouseEvent) => {
+      width = Math.round(startWidth + ev.clientX - startX);
+      if (minWidth !== void 0) {
+        width = Math.max(width, minWidth);
+      }
+      if (maxWidth !== void 0) {
+        width = Math.min(width, maxWidth);
+      }
+      width = Math.max(width, 1);
+      onResize?.(width);
+    };
+    const onMouseUp = () => {
+      document.removeEventListener('mousemove', onMouseMove);
+      document.removeEventListener('mouseup', onMouseUp);
+      if (width !== startWidth) {
+        onResizeEnd?.(width);
+      }
+    };
+    document.addEventListener('mousemove', onMouseMove);
+    document.addEventListener('mouseup', onMouseUp);
+  };
+
+  const reorderProps: React.ThHTMLAttributes<HTMLTableHeaderCellElement> = reorderable && columnKey
+    ? {
+      draggable: true,
+      onDragStart: (e) => {
+        e.dataTransfer.setData(DRAG_DATA_TYPE, columnKey);
+        e.dataTransfer.effectAllowed = 'move';
+      },
+      onDragOver: (e) => {
+        if (e.dataTransfer.types.includes(DRAG_DATA_TYPE)) {
+          e.preventDefault();
+          e.dataTransfer.dropEffect = 'move';
+          setDragOver(true);
+        }
+      },
+      onDragLeave: () => { setDragOver(false); },
+      onDrop: (e) => {
+        setDragOver(false);
+        const sourceKey = e.dataTransfer.getData(DRAG_DATA_TYPE);
+        if (sourceKey && sourceKey !== columnKey) {
+          e.preventDefault();
+          onColumnMove?.(sourceKey, columnKey);
+        }
+      },
+    }
+    : {};
+
+  return (
+    <th
+      ref={cellRef}
+      className={classnames(className, {
+        [styles['header-cell-resizable']]: resizable,
+        [styles['header-cell-reorderable']]: reorderable,
+        [styles['header-cell-drag-over']]: dragOver,
+      })}
+      {...props}
+      {...reorderProps}
+    >
+      { children }
+      {
+        resizable
+          ? (
+            <span
+              className={styles['header-cell-resize-handle']}
+              onMouseDown={onMouseDown}
+              onClick={(e) => { e.stopPropagation(); }}
+            />
+          )
+          : null
+      }
+    </th>
+  );
+};
+
+export default HeaderCell;
@@ -9,10 +9,12 @@
 import React from 'react';
 
 import { SetStateAction } from './hooks';
+import { DripTableCursorPagination, DripTableEditPatch, DripTableRecordTypeBase, DripTableExportFormat, DripTableExportOptions, DripTableRowDraft, DripTableSorter } from './types';
 
 export interface IDripTableContext {
   readonly _CTX_SOURCE: 'CONTEXT' | 'PROVIDER';
   loading: boolean;
+  error: Error | null; // 远程数据源请求异常
   api: CallableFunction | CallableFunction[] | null;
   tab: number; // 如果api是数组，需要在最顶层感知tab，来知道到底点击搜索调用的是啥api
   extraData: null; // 需要用到的 dataSource 以外的扩展返回值
@@ -21,16 +23,32 @@ export interface IDripTableContext {
     total: number;
     pageSize: number;
   };
+  cursorPagination: DripTableCursorPagination; // 游标分页状态
   filters: Record<string, (boolean | React.Key)[] | null>;
+  search: { searchKey?: number | string; searchStr: string };
+  sorter: DripTableSorter | null;
   tableSize: 'default';
   checkPassed: boolean;
   selectedRowKeys: React.Key[];
+  selectAllPages: boolean; // 是否已跨页全选，此时 selectedRowKeys 无效，excludedRowKeys 为被取消选中的行
+  excludedRowKeys: React.Key[];
   displayColumnKeys: React.Key[];
+  columnOrder: string[]; // 用户拖拽调整后的列顺序
+  columnWidths: Record<string, number>; // 用户拖拽调整后的列宽
+  expandedRowKeys: React.Key[]; // 树形数据展开的行主键
+  loadedChildren: Record<string, DripTableRecordTypeBase[]>; // 树形数据懒加载的子节点，以父节点行主键为 key
+  rowDrafts: Record<string, DripTableRowDraft>; // 处于行编辑状态的行草稿，以行主键为 key
+  editHistory: { past: DripTableEditPatch[][]; future: DripTableEditPatch[][] }; // 数据编辑历史，每条记录为一次操作中各行的修改，用于撤销、重做
   setTableState: (state: SetStateAction<IDripTableContext>) => void;
+  reload: () => Promise<void>;
+  exportData: (format: DripTableExportFormat, options?: DripTableExportOptions) => Promise<Blob>; // 导出表格数据
+  undo: () => void; // 撤销最近一次数据编辑
+  redo: () => void; // 重做最近一次撤销的数据编辑
 }
 
 export const DripTableContext = React.createContext<IDripTableContext>({
   loading: false,
+  error: null,
   api: null,
   tab: 0,
   extraData: null,
@@ -39,13 +57,33 @@ export const DripTableContext = React.createContext<IDripTableContext>({
     total: 0,
     pageSize: 10,
   },
+  cursorPagination: {
+    cursor: null,
+    prevCursor: null,
+    nextCursor: null,
+    history: [],
+  },
   filters: {},
+  search: { searchStr: '' },
+  sorter: null,
   tableSize: 'default',
   checkPassed: true,
   selectedRowKeys: [],
+  selectAllPages: false,
+  excludedRowKeys: [],
   displayColumnKeys: [],
+  columnOrder: [],
+  columnWidths: {},
+  expandedRowKeys: [],
+  loadedChildren: {},
+  rowDrafts: {},
+  editHistory: { past: [], future: [] },
   _CTX_SOURCE: 'CONTEXT',
   setTableState: () => void 0,
+  reload: () => Promise.resolve(),
+  exportData: () => Promise.resolve(new Blob()),
+  undo: () => void 0,
+  redo: () => void 0,
 });
 
 export const DripTableStoreContext = React.createContext({});
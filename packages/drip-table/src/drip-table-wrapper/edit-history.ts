@@ -0,0 +1,60 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import {
+  type DripTableExtraOptions,
+  type DripTableRecordTypeBase,
+  type DripTableRecordTypeWithSubtable,
+} from '@/types';
+import { type IDripTableContext } from '@/context';
+import { type DripTableProps } from '@/drip-table';
+import { applyEditPatches } from '@/drip-table/utils/history';
+import { type SetStateAction } from '@/hooks';
+
+import { type RemoteDataSource } from './remote-data-source';
+
+/**
+ * 创建撤销、重做函数：按编辑历史回写数据并通过 onDataSourceChange 通知
+ * @param props 表格参数
+ * @param state 表格状态
+ * @param setState 设置表格状态
+ * @param remote 远程数据源请求状态
+ * @returns 撤销、重做函数
+ */
+export const createEditHistory = <
+  RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
+  ExtraOptions extends Partial<DripTableExtraOptions> = never,
+>(
+    props: Omit<DripTableProps<RecordType, ExtraOptions>, 'dataSource'> & Partial<Pick<DripTableProps<RecordType, ExtraOptions>, 'dataSource'>>,
+    state: IDripTableContext,
+    setState: (action: SetStateAction<IDripTableContext>) => void,
+    remote: RemoteDataSource<RecordType>,
+  ): Pick<IDripTableContext, 'undo' | 'redo'> => {
+  const travel = (direction: 'undo' | 'redo') => {
+    const { past, future } = state.editHistory;
+    const patches = direction === 'undo' ? past[past.length - 1] : future[0];
+    if (!patches) {
+      return;
+    }
+    setState({
+      editHistory: direction === 'undo'
+        ? { past: past.slice(0, -1), future: [patches, ...future] }
+        : { past: [...past, patches], future: future.slice(1) },
+    });
+    const dataSource = remote.data ? remote.data.list : props.dataSource || [];
+    const ds = applyEditPatches(dataSource, props.schema.rowKey ?? 'key', patches, direction, props.schema.tree);
+    // 对应行已不在当前数据源中时仅移动历史记录
+    if (ds) {
+      props.onDataSourceChange?.(ds, { schema: props.schema, dataSource, parent: props.__PARENT_INFO__ });
+    }
+  };
+  return {
+    undo: () => travel('undo'),
+    redo: () => travel('redo'),
+  };
+};
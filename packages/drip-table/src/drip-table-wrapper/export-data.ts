@@ -0,0 +1,108 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import {
+  type DripTableExportFormat,
+  type DripTableExportOptions,
+  type DripTableExtraOptions,
+  type DripTableFetcherResult,
+  type DripTableRecordTypeBase,
+  type DripTableRecordTypeWithSubtable,
+} from '@/types';
+import { type IDripTableContext } from '@/context';
+import { type DripTableProps } from '@/drip-table';
+import { flattenColumns, sortColumns } from '@/drip-table/utils/column';
+import { cellToText, createComponentResolver, downloadBlob, flattenExportColumns, serializeRows } from '@/drip-table/utils/export';
+import { processDataSource } from '@/drip-table/utils/pipeline';
+import { canSelectAllPages, normalizeRowSelection } from '@/drip-table/utils/selection';
+
+import { type RemoteDataSource } from './remote-data-source';
+
+/**
+ * 创建表格数据导出函数：按照当前列顺序、展示列以及单元格组件展示语义生成 CSV 或 XLSX 文件
+ * @param props 表格参数
+ * @param state 表格状态
+ * @param remote 远程数据源请求状态
+ * @returns 导出函数，返回导出的文件内容
+ */
+export const createDataExporter = <
+  RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
+  ExtraOptions extends Partial<DripTableExtraOptions> = never,
+>(
+    props: Omit<DripTableProps<RecordType, ExtraOptions>, 'dataSource'> & Partial<Pick<DripTableProps<RecordType, ExtraOptions>, 'dataSource'>>,
+    state: IDripTableContext,
+    remote: RemoteDataSource<RecordType>,
+  ) => async (format: DripTableExportFormat, options: DripTableExportOptions = {}): Promise<Blob> => {
+    const { schema } = props;
+    const rowKey = schema.rowKey ?? 'key';
+    const clientMode = schema.dataMode === 'client' && !props.fetcher;
+    const leafColumns = flattenColumns(schema.columns);
+    const fetcher = props.fetcher;
+    const loadPage = options.loadPage || (fetcher && ((params: Parameters<NonNullable<DripTableExportOptions['loadPage']>>[0]) => fetcher({ ...params, signal: new AbortController().signal })));
+
+    let records: DripTableRecordTypeBase[];
+    if (options.allPages && !clientMode && loadPage) {
+      const pageSize = options.loadPageSize || state.pagination.pageSize;
+      const cursorMode = schema.pagination !== false && schema.pagination?.mode === 'cursor';
+      /**
+       * 逐页加载，后一页请求依赖前一页返回的总条数或下一页游标；未返回总条数时加载到空页或不满一页为止
+       * @param page 页码
+       * @param cursor 页面游标
+       * @param loaded 已加载的数据
+       * @returns 所有页数据
+       */
+      const loadPages = async (page: number, cursor: string | null, loaded: DripTableRecordTypeBase[]): Promise<DripTableRecordTypeBase[]> => {
+        const result: DripTableFetcherResult<DripTableRecordTypeBase> = await loadPage({ page, pageSize, filters: state.filters, sorter: state.sorter, search: state.search, cursor });
+        const list = [...loaded, ...result.list];
+        const nextCursor = result.nextCursor ?? null;
+        let finished: boolean;
+        if (result.list.length === 0) {
+          finished = true;
+        } else if (cursorMode) {
+          finished = nextCursor === null;
+        } else {
+          finished = result.total === void 0 ? result.list.length < pageSize : list.length >= result.total;
+        }
+        return finished ? list : loadPages(page + 1, nextCursor, list);
+      };
+      records = await loadPages(1, null, []);
+    } else {
+      records = processDataSource(remote.data ? remote.data.list : props.dataSource || [], {
+        columns: leafColumns,
+        filters: clientMode ? state.filters : void 0,
+        search: clientMode ? state.search : void 0,
+        sorter: fetcher ? null : state.sorter,
+        pagination: clientMode && !options.allPages && schema.pagination !== false && (schema.pagination?.mode ?? 'page') === 'page'
+          ? { current: props.currentPage || state.pagination.current, pageSize: state.pagination.pageSize }
+          : false,
+        predicates: props.dataPredicates,
+      }).dataSource;
+    }
+    if (options.selectedOnly) {
+      records = state.selectAllPages && canSelectAllPages(normalizeRowSelection(schema.rowSelection))
+        ? records.filter(record => !state.excludedRowKeys.includes(record[rowKey] as React.Key))
+        : records.filter(record => state.selectedRowKeys.includes(record[rowKey] as React.Key));
+    }
+
+    const resolve = createComponentResolver(props.components);
+    const columns = flattenExportColumns(
+      sortColumns(schema.columns, props.columnOrder || state.columnOrder),
+      state.displayColumnKeys,
+      options.includeHidden,
+    );
+    const rows = [
+      columns.map(c => c.title),
+      ...records.map(record => columns.map(c => cellToText(c.column, record, resolve, schema.expressionMode))),
+    ];
+    const filename = options.filename ?? String(schema.id ?? 'export');
+    const blob = serializeRows(rows, format, filename);
+    if (options.download !== false) {
+      downloadBlob(blob, `${filename}.${format}`);
+    }
+    return blob;
+  };
@@ -8,11 +8,19 @@
 
 import React from 'react';
 
-import { DripTableExtraOptions, DripTableRecordTypeBase, DripTableRecordTypeWithSubtable } from '@/types';
+import { DripTableExtraOptions, DripTableRecordTypeBase, DripTableRecordTypeWithSubtable, DripTableRowDraft } from '@/types';
 import { DripTableContext, IDripTableContext } from '@/context';
 import DripTable, { DripTableProps } from '@/drip-table';
+import { indexValue, stringify } from '@/drip-table/utils';
+import { flattenColumns, isRowEditColumn } from '@/drip-table/utils/column';
+import { getDefaultSorter } from '@/drip-table/utils/sorter';
 import { useState, useTable } from '@/hooks';
 
+import { createEditHistory } from './edit-history';
+import { createDataExporter } from './export-data';
+import { usePersistence } from './persistence';
+import { type RemoteDataSource, useRemoteDataSource } from './remote-data-source';
+
 /**
  * 暴露给外部直接操作实例的接口
  */
@@ -23,19 +31,48 @@ export interface DripTableWrapperContext extends IDripTableContext {
    * @param indexes 行号数组
    */
   select: (indexes: number[]) => void;
+  /**
+   * 获取存在未保存修改的行编辑草稿
+   *
+   * @returns 行主键及其草稿
+   */
+  getDirtyRows: () => (DripTableRowDraft & { rowKey: string })[];
+  /**
+   * 丢弃全部行编辑草稿，退出行编辑状态
+   */
+  discardDrafts: () => void;
+  /**
+   * 是否存在可撤销的数据编辑
+   */
+  canUndo: boolean;
+  /**
+   * 是否存在可重做的数据编辑
+   */
+  canRedo: boolean;
 }
 
+/**
+ * 表格组件参数，设置 fetcher 时可不传 dataSource
+ */
+export type DripTableWrapperProps<
+  RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
+  ExtraOptions extends Partial<DripTableExtraOptions> = never,
+> = Omit<DripTableProps<RecordType, ExtraOptions>, 'dataSource'> & Partial<Pick<DripTableProps<RecordType, ExtraOptions>, 'dataSource'>>;
+
 // 组件提供给外部的公共接口
 const createTableContext = <
   RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
   ExtraOptions extends Partial<DripTableExtraOptions> = never,
->(props: DripTableProps<RecordType, ExtraOptions>): DripTableWrapperContext => {
+>(props: DripTableWrapperProps<RecordType, ExtraOptions>): [DripTableWrapperContext, RemoteDataSource<RecordType>] => {
   const initialState = useTable();
-  const [state, setState] = useState(initialState);
+  const [state, setState] = useState<IDripTableContext>({ ...initialState, sorter: getDefaultSorter(flattenColumns(props.schema.columns)) });
+  const restored = usePersistence(props, state, setState);
+  const remote = useRemoteDataSource(props, state, setState, restored);
 
   const select = (indexes: number[]) => {
     let selectedKeys: React.Key[] = [];
-    const { dataSource, schema: { rowKey } } = props;
+    const { schema: { rowKey } } = props;
+    const dataSource = remote.data ? remote.data.list : props.dataSource;
     if (dataSource && rowKey) {
       indexes.forEach((index) => {
         const data = dataSource[index];
@@ -50,30 +87,49 @@ const createTableContext = <
     } else {
       selectedKeys = [...indexes];
     }
-    setState({ selectedRowKeys: selectedKeys });
+    setState({ selectedRowKeys: selectedKeys, selectAllPages: false, excludedRowKeys: [] });
+  };
+
+  const getDirtyRows = () => {
+    const columns = flattenColumns(props.schema.columns).filter(isRowEditColumn);
+    return Object.entries(state.rowDrafts)
+      .filter(([, { record, draft }]) => columns.some(c => stringify(indexValue(record, c.dataIndex)) !== stringify(indexValue(draft, c.dataIndex))))
+      .map(([rowKey, rowDraft]) => ({ rowKey, ...rowDraft }));
   };
 
   const handler: DripTableWrapperContext = {
     ...state,
     setTableState: setState,
     select,
+    getDirtyRows,
+    discardDrafts: () => setState({ rowDrafts: {} }),
+    reload: remote.reload,
+    exportData: createDataExporter(props, state, remote),
+    ...createEditHistory(props, state, setState, remote),
+    canUndo: state.editHistory.past.length > 0,
+    canRedo: state.editHistory.future.length > 0,
     _CTX_SOURCE: 'PROVIDER', // context 来源于 drip-table-provider
   };
-  return handler;
+  return [handler, remote];
 };
 
 const DripTableWrapper: <
   RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
   ExtraOptions extends Partial<DripTableExtraOptions> = never,
-> (props: React.PropsWithoutRef<DripTableProps<RecordType, ExtraOptions>> & React.RefAttributes<DripTableWrapperContext>) =>
+> (props: React.PropsWithoutRef<DripTableWrapperProps<RecordType, ExtraOptions>> & React.RefAttributes<DripTableWrapperContext>) =>
 (React.ReactElement | null) = React.forwardRef((props, ref) => {
   const ConfigProvider = props.driver.components.ConfigProvider;
-  const context = createTableContext(props);
+  const [context, remote] = createTableContext(props);
   React.useImperativeHandle(ref, () => context);
   return (
     <ConfigProvider locale={props?.driver.locale}>
       <DripTableContext.Provider {...props} value={context}>
-        <DripTable {...props} />
+        <DripTable
+          {...props}
+          dataSource={remote.data ? remote.data.list : props.dataSource || []}
+          total={remote.data ? remote.data.total : props.total}
+          loading={props.loading || context.loading}
+        />
       </DripTableContext.Provider>
     </ConfigProvider>
   );
@@ -0,0 +1,164 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { type DripTableExtraOptions, type DripTablePersistenceStorage, type DripTableRecordTypeBase, type DripTableRecordTypeWithSubtable } from '@/types';
+import { type IDripTableContext } from '@/context';
+import { type DripTableProps } from '@/drip-table';
+import { flattenColumnNodes } from '@/drip-table/utils/column';
+
+/**
+ * 持久化的表格视图状态
+ */
+interface PersistedViewState {
+  displayColumnKeys: IDripTableContext['displayColumnKeys'];
+  columnWidths: IDripTableContext['columnWidths'];
+  columnOrder: IDripTableContext['columnOrder'];
+  sorter: IDripTableContext['sorter'];
+  filters: IDripTableContext['filters'];
+  pageSize: number;
+}
+
+/**
+ * 持久化存储内容
+ */
+interface PersistedRecord {
+  /**
+   * 用户设置的存储版本号
+   */
+  version: string | number;
+  /**
+   * 存储时表格列结构指纹，列结构变化后已存储的视图状态失效
+   */
+  fingerprint: string;
+  state: PersistedViewState;
+}
+
+/**
+ * 解析存储适配器，运行环境不支持 Web Storage 时返回 null
+ * @param storage 存储适配器设置
+ * @returns 存储适配器
+ */
+const resolveStorage = (storage: NonNullable<DripTableProps<DripTableRecordTypeBase>['persistence']>['storage']): DripTablePersistenceStorage | null => {
+  if (storage && typeof storage === 'object') {
+    return storage;
+  }
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  try {
+    return storage === 'sessionStorage' ? window.sessionStorage : window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 根据表格状态与设置，将表格视图状态持久化到存储适配器中，加载完成时恢复已存储且版本匹配的视图状态
+ * @param props 表格参数
+ * @param state 表格状态
+ * @param setState 表格状态转移函数
+ * @returns 视图状态是否已恢复完成，未开启持久化时始终为 true
+ */
+export const usePersistence = <
+  RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
+  ExtraOptions extends Partial<DripTableExtraOptions> = never,
+>(
+    props: Pick<DripTableProps<RecordType, ExtraOptions>, 'schema' | 'persistence'>,
+    state: IDripTableContext,
+    setState: IDripTableContext['setTableState'],
+  ) => {
+  const persistence = props.persistence;
+  // 自定义存储适配器可能每次渲染重新创建，仅在存储类型变化时重新恢复
+  const storageType = typeof persistence?.storage === 'object' ? 'custom' : persistence?.storage;
+  // 未设置存储键名且表格无标识时无法区分不同表格，不进行持久化
+  const storageKey = persistence?.key ?? (props.schema.id === void 0 ? null : `drip-table:${props.schema.id}`);
+  const storageRef = React.useRef<DripTablePersistenceStorage | null>(null);
+  storageRef.current = persistence && storageKey !== null ? resolveStorage(persistence.storage) : null;
+  const version = persistence?.version ?? 0;
+  const fingerprint = React.useMemo(
+    () => flattenColumnNodes(props.schema.columns).map(({ column }) => column.key).join(','),
+    [props.schema.columns],
+  );
+  // 恢复完成前不写入存储，避免默认状态覆盖已存储的视图状态
+  const [restoredKey, setRestoredKey] = React.useState<string | null>(null);
+  const warnedRef = React.useRef(false);
+
+  React.useEffect(() => {
+    if (persistence && storageKey === null && !warnedRef.current) {
+      warnedRef.current = true;
+      console.warn('[DripTable] Persistence requires "persistence.key" or "schema.id", view state will not be persisted.');
+    }
+    const storage = storageRef.current;
+    if (!storage || storageKey === null) {
+      return void 0;
+    }
+    let canceled = false;
+    setRestoredKey(null);
+    Promise.resolve()
+      .then(() => storage.getItem(storageKey))
+      .then((value) => {
+        if (canceled || !value) {
+          return;
+        }
+        const record = JSON.parse(value) as PersistedRecord;
+        if (record.version !== version || record.fingerprint !== fingerprint || !record.state) {
+          return;
+        }
+        const { pageSize, ...viewState } = record.state;
+        setState(s => ({
+          ...viewState,
+          pagination: { ...s.pagination, current: 1, pageSize: pageSize || s.pagination.pageSize },
+        }));
+      })
+      .catch((error: unknown) => {
+        persistence?.onError?.(error, 'read');
+      })
+      .finally(() => {
+        if (!canceled) {
+          setRestoredKey(storageKey);
+        }
+      });
+    return () => { canceled = true; };
+  }, [!persistence, storageType, storageKey, version, fingerprint]);
+
+  React.useEffect(() => {
+    const storage = storageRef.current;
+    if (!storage || storageKey === null || restoredKey !== storageKey) {
+      return;
+    }
+    const record: PersistedRecord = {
+      version,
+      fingerprint,
+      state: {
+        displayColumnKeys: state.displayColumnKeys,
+        columnWidths: state.columnWidths,
+        columnOrder: state.columnOrder,
+        sorter: state.sorter,
+        filters: state.filters,
+        pageSize: state.pagination.pageSize,
+      },
+    };
+    Promise.resolve()
+      .then(() => storage.setItem(storageKey, JSON.stringify(record)))
+      .catch((error: unknown) => {
+        persistence?.onError?.(error, 'write');
+      });
+  }, [
+    restoredKey,
+    state.displayColumnKeys,
+    state.columnWidths,
+    state.columnOrder,
+    state.sorter,
+    state.filters,
+    state.pagination.pageSize,
+  ]);
+
+  return !storageRef.current || restoredKey === storageKey;
+};
@@ -0,0 +1,120 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { type DripTableExtraOptions, type DripTableRecordTypeBase, type DripTableRecordTypeWithSubtable } from '@/types';
+import { type IDripTableContext } from '@/context';
+import { type DripTableProps } from '@/drip-table';
+import { requestWithRetry } from '@/utils/request';
+
+/**
+ * 远程数据源请求状态
+ */
+export interface RemoteDataSource<RecordType> {
+  /**
+   * 已加载的数据，未设置 fetcher 时为 null
+   */
+  data: { list: RecordType[]; total: number } | null;
+  /**
+   * 立即重新请求当前参数对应的数据
+   */
+  reload: () => Promise<void>;
+}
+
+/**
+ * 根据表格状态自动请求远程数据源：
+ * 加载完成、分页（包括游标分页）、过滤、排序、搜索状态变化时防抖请求，新请求发起时中断并忽略旧请求，失败时按配置重试。
+ * @param props 表格参数
+ * @param state 表格状态
+ * @param setState 表格状态转移函数
+ * @param ready 是否可以发起请求，如持久化的视图状态恢复完成前不请求，避免以默认状态多请求一次
+ * @returns 远程数据源请求状态
+ */
+export const useRemoteDataSource = <
+  RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
+  ExtraOptions extends Partial<DripTableExtraOptions> = never,
+>(
+    props: Pick<DripTableProps<RecordType, ExtraOptions>, 'fetcher' | 'fetcherOptions'>,
+    state: IDripTableContext,
+    setState: IDripTableContext['setTableState'],
+    ready = true,
+  ): RemoteDataSource<RecordType> => {
+  const [data, setData] = React.useState<RemoteDataSource<RecordType>['data']>(null);
+  const stateRef = React.useRef(state);
+  stateRef.current = state;
+  const fetcherRef = React.useRef(props.fetcher);
+  fetcherRef.current = props.fetcher;
+  const abortControllerRef = React.useRef<AbortController | null>(null);
+
+  const reload = React.useCallback(async () => {
+    const fetcher = fetcherRef.current;
+    if (!fetcher) {
+      return;
+    }
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { pagination, cursorPagination, filters, sorter, search } = stateRef.current;
+    setState({ loading: true, error: null });
+    try {
+      const result = await requestWithRetry(
+        signal => fetcher({ page: pagination.current, pageSize: pagination.pageSize, filters, sorter, search, cursor: cursorPagination.cursor, signal }),
+        {
+          signal: abortController.signal,
+          retryTimes: props.fetcherOptions?.retryTimes ?? 0,
+          retryDelay: props.fetcherOptions?.retryDelay ?? 1000,
+        },
+      );
+      if (abortController.signal.aborted) {
+        return;
+      }
+      const total = result.total ?? result.list.length;
+      setData({ list: result.list, total });
+      setState(s => ({
+        loading: false,
+        pagination: { ...s.pagination, total },
+        cursorPagination: {
+          ...s.cursorPagination,
+          prevCursor: result.prevCursor ?? null,
+          nextCursor: result.nextCursor ?? null,
+          estimatedTotal: result.total,
+        },
+      }));
+    } catch (error: unknown) {
+      if (abortController.signal.aborted) {
+        return;
+      }
+      setState({
+        loading: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+    }
+  }, [props.fetcherOptions?.retryTimes, props.fetcherOptions?.retryDelay]);
+
+  React.useEffect(() => {
+    if (!props.fetcher || !ready) {
+      return void 0;
+    }
+    const timer = setTimeout(() => { reload(); }, props.fetcherOptions?.debounce ?? 0);
+    return () => clearTimeout(timer);
+  }, [
+    !props.fetcher,
+    ready,
+    state.pagination.current,
+    state.pagination.pageSize,
+    state.cursorPagination.cursor,
+    state.filters,
+    state.sorter,
+    state.search,
+  ]);
+
+  React.useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  return { data: props.fetcher ? data : null, reload };
+};
@@ -87,6 +87,21 @@ export default class DTCButton<RecordType extends DripTableRecordTypeBase> exten
     return true;
   }
 
+  /**
+   * 行编辑按钮：编辑按钮仅在非编辑状态下展示，保存、取消按钮仅在编辑状态下展示
+   * @param event 按钮事件
+   * @returns 是否展示
+   */
+  private isVisible(event?: string) {
+    if (event === 'drip-row-edit') {
+      return !this.props.rowEditing;
+    }
+    if (event === 'drip-row-save' || event === 'drip-row-cancel') {
+      return !!this.props.rowEditing;
+    }
+    return true;
+  }
+
   private getIcon(iconName: string) {
     const Icons = this.props.driver.icons;
     const Icon = Icons?.[iconName];
@@ -105,6 +120,9 @@ export default class DTCButton<RecordType extends DripTableRecordTypeBase> exten
       return <div style={{ color: 'red' }}>属性配置错误</div>;
     }
     if (options.mode === 'single') {
+      if (!this.isVisible(options.event)) {
+        return null;
+      }
       return (
         <Button
           type={options.buttonType}
@@ -125,7 +143,7 @@ export default class DTCButton<RecordType extends DripTableRecordTypeBase> exten
       );
     }
     if (options.mode === 'multiple') {
-      return options.buttons?.map((config, index) => (
+      return options.buttons?.map((config, index) => this.isVisible(config.event) && (
         <Button
           key={index}
           style={{ marginLeft: options.margin, marginRight: options.margin }}
@@ -6,7 +6,7 @@
  * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
  */
 
-import { DripTableColumnSchema, DripTableDriver, DripTableRecordTypeBase, EventLike } from '@/types';
+import { DripTableColumnSchema, DripTableDriver, DripTableExpressionMode, DripTableRecordTypeBase, EventLike } from '@/types';
 
 import { DripTableBuiltInComponentEvent } from '.';
 
@@ -36,6 +36,14 @@ export interface DripTableComponentProps<
    * 是否可通过点击进入编辑模式
    */
   editable?: boolean;
+  /**
+   * 当前行是否处于行编辑状态
+   */
+  rowEditing?: boolean;
+  /**
+   * 单元格模板表达式执行模式
+   */
+  expressionMode?: DripTableExpressionMode;
   /**
    * 单元格数据改变事件（例如编辑模式）
    */
@@ -105,6 +105,7 @@ export default class DTCGroup<
             data={this.props.data}
             schema={schema as unknown as DripTableBuiltInColumnSchema}
             ext={this.props.ext}
+            expressionMode={this.props.expressionMode}
             fireEvent={event => this.props.fireEvent?.(event)}
           />
         );
@@ -121,6 +122,7 @@ export default class DTCGroup<
             data={this.props.data}
             schema={schema as NonNullable<ExtraOptions['CustomColumnSchema']>}
             ext={this.props.ext}
+            expressionMode={this.props.expressionMode}
             fireEvent={event => this.props.fireEvent?.(event as DripTableBuiltInComponentEvent)}
           />
         );
@@ -63,6 +63,19 @@ export default class DTCLink<RecordType extends DripTableRecordTypeBase> extends
     },
   };
 
+  /**
+   * 生成单元格纯文本内容，用于导出等场景
+   * @param schema 列配置
+   * @returns 纯文本
+   */
+  public static toText = (schema: DTCLinkColumnSchema): string => {
+    const options = schema.options;
+    if (options.mode === 'multiple') {
+      return (options.operates || []).map(config => config.label || '').filter(Boolean).join(' ');
+    }
+    return options.label || '';
+  };
+
   private get configured() {
     const options = this.props.schema.options;
     if (options.mode === 'multiple') {
@@ -71,7 +84,7 @@ export default class DTCLink<RecordType extends DripTableRecordTypeBase> extends
       }
       return false;
     }
-    if (options.mode === 'single' && (finalizeString('pattern', options.href || '', this.props.data) || options.event)) {
+    if (options.mode === 'single' && (finalizeString('pattern', options.href || '', this.props.data, this.props.expressionMode) || options.event)) {
       return true;
     }
     return false;
@@ -99,7 +112,7 @@ export default class DTCLink<RecordType extends DripTableRecordTypeBase> extends
           </a>
         );
       }
-      return <a href={finalizeString('pattern', options.href || '', this.props.data)} target={options.target}>{ options.label }</a>;
+      return <a href={finalizeString('pattern', options.href || '', this.props.data, this.props.expressionMode)} target={options.target}>{ options.label }</a>;
     }
     return (
       <div>
@@ -126,7 +139,7 @@ export default class DTCLink<RecordType extends DripTableRecordTypeBase> extends
               <a
                 style={{ marginRight: '5px' }}
                 key={config.name || index}
-                href={finalizeString('pattern', config.href || '', this.props.data)}
+                href={finalizeString('pattern', config.href || '', this.props.data, this.props.expressionMode)}
                 target={config.target}
               >
                 { config.label }
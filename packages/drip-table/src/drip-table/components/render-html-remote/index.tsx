@@ -10,6 +10,7 @@ import React from 'react';
 
 import { DripTableColumnSchema, DripTableRecordTypeBase, SchemaObject } from '@/types';
 import RichText from '@/components/rich-text';
+import { evaluateScript } from '@/drip-table/utils/expression';
 
 import { DripTableComponentProps } from '../component';
 
@@ -79,7 +80,7 @@ export default class DTCRenderHTMLRemote<RecordType extends DripTableRecordTypeB
       return <Spin tip="Loading" />;
     }
     try {
-      const html = new Function('rec', this.state.render)(this.props.data);
+      const html = evaluateScript(this.state.render, this.props.data, this.props.expressionMode) as string;
       if (typeof html === 'object') {
         return (
           <div>{ Object.prototype.toString.call(html) }</div>
@@ -11,6 +11,7 @@ import React from 'react';
 import { DripTableColumnSchema, DripTableRecordTypeBase, SchemaObject } from '@/types';
 import ErrorBoundary from '@/components/error-boundary';
 import RichText from '@/components/rich-text';
+import { evaluateScript } from '@/drip-table/utils/expression';
 
 import { DripTableComponentProps } from '../component';
 
@@ -35,7 +36,7 @@ export default class DTCRenderHTML<RecordType extends DripTableRecordTypeBase> e
     const { data, schema: { options } } = this.props;
     const Alert = this.props.driver.components.Alert;
     try {
-      const html = new Function('rec', options.render)(data);
+      const html = evaluateScript(options.render, data, this.props.expressionMode) as string;
       if (typeof html === 'object') {
         return (
           <div>{ Object.prototype.toString.call(html) }</div>
@@ -11,7 +11,7 @@ import React from 'react';
 import { DripTableColumnSchema, DripTableRecordTypeBase, SchemaObject } from '@/types';
 import ErrorBoundary from '@/components/error-boundary';
 import RichText from '@/components/rich-text';
-import { stringify } from '@/drip-table/utils';
+import { renderTemplate } from '@/drip-table/utils/expression';
 
 import { DripTableComponentProps } from '../component';
 
@@ -38,15 +38,7 @@ export default class DTCRichText<RecordType extends DripTableRecordTypeBase> ext
     const { data, schema: { options } } = this.props;
     const { Alert } = this.props.driver.components;
     try {
-      const html = options.render.replace(/\{\{(.+?)\}\}/guis, (s, s1) => {
-        try {
-          return stringify(new Function('rec', `return ${s1}`)(data));
-        } catch (error) {
-          return error instanceof Error
-            ? `{{Render Error: ${error.message}}}`
-            : '{{Unknown Render Error}}';
-        }
-      });
+      const html = renderTemplate(options.render, data, this.props.expressionMode);
       if (typeof html === 'object') {
         return (
           <div>{ Object.prototype.toString.call(html) }</div>
@@ -9,7 +9,7 @@
 import React from 'react';
 
 import { DripTableColumnSchema, DripTableRecordTypeBase, SchemaObject } from '@/types';
-import { indexValue } from '@/drip-table/utils';
+import { indexValue, stringify } from '@/drip-table/utils';
 
 import { DripTableComponentProps } from '../component';
 
@@ -62,6 +62,19 @@ export default class DTCTag<RecordType extends DripTableRecordTypeBase> extends
     },
   };
 
+  /**
+   * 生成单元格纯文本内容，用于导出等场景
+   * @param schema 列配置
+   * @param data 行数据
+   * @returns 纯文本
+   */
+  public static toText = (schema: DTCTagColumnSchema, data: unknown): string => {
+    const options = schema.options;
+    const value = indexValue(data, schema.dataIndex, '');
+    const tagOption = options.tagOptions?.find(item => item.value === value);
+    return `${options.prefix || ''}${options.content || tagOption?.label || stringify(value)}${options.suffix || ''}`;
+  };
+
   private get value() {
     const schema = this.props.schema;
     const dataIndex = schema.dataIndex;
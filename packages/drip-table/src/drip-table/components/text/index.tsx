@@ -10,8 +10,9 @@ import classnames from 'classnames';
 import Textarea from 'rc-textarea';
 import React from 'react';
 
-import { DripTableColumnSchema, DripTableRecordTypeBase, SchemaObject } from '@/types';
+import { DripTableColumnSchema, DripTableExpressionMode, DripTableRecordTypeBase, SchemaObject } from '@/types';
 import { indexValue, stringify } from '@/drip-table/utils';
+import { renderTemplate } from '@/drip-table/utils/expression';
 
 import { DripTableComponentProps } from '../component';
 
@@ -99,6 +100,33 @@ const translate = (i18n: Record<string, string> | undefined, origin: string) =>
   return origin;
 };
 
+/**
+ * 根据列配置计算文本展示内容
+ * @param schema 列配置
+ * @param data 行数据
+ * @param expressionMode 表达式执行模式
+ * @returns 按行拆分的文本
+ */
+const renderRawText = (schema: DTCTextColumnSchema, data: unknown, expressionMode?: DripTableExpressionMode): string[] => {
+  const { dataIndex, options } = schema;
+  const { mode, format, prefix, suffix, parts: params } = options;
+  const defaultValue = 'defaultValue' in options ? options.defaultValue : String(schema.defaultValue ?? '');
+  if (mode === 'custom') {
+    return renderTemplate(format || '', data, expressionMode)
+      .split('\n');
+  }
+  if (mode === 'single') {
+    return `${prefix ?? ''}${translate(schema.options.i18n, indexValue(data, dataIndex, defaultValue)) ?? ''}${suffix ?? ''}`.split('\n');
+  }
+  if (mode === 'multiple') {
+    return (params || [])
+      .map((config, i) => `${config.prefix || ''}${translate(config.i18n, indexValue(data, config.dataIndex, defaultValue)) ?? ''}${config.suffix || ''}`)
+      .join('\n')
+      .split('\n');
+  }
+  return [];
+};
+
 export default class DTCText<RecordType extends DripTableRecordTypeBase> extends React.PureComponent<DTCTextProps<RecordType>, DTCTextState> {
   public static componentName: DTCTextColumnSchema['component'] = 'text';
   public static schema: SchemaObject = {
@@ -132,6 +160,15 @@ export default class DTCText<RecordType extends DripTableRecordTypeBase> extends
     },
   };
 
+  /**
+   * 生成单元格纯文本内容，用于导出等场景
+   * @param schema 列配置
+   * @param data 行数据
+   * @param expressionMode 表达式执行模式
+   * @returns 纯文本
+   */
+  public static toText = (schema: DTCTextColumnSchema, data: unknown, expressionMode?: DripTableExpressionMode): string => renderRawText(schema, data, expressionMode).join('\n');
+
   public state: DTCTextState = {
     editState: 'none',
     editLeft: 0,
@@ -211,37 +248,11 @@ export default class DTCText<RecordType extends DripTableRecordTypeBase> extends
   }
 
   private get rawText(): string[] {
-    const { schema, data } = this.props;
-    const { dataIndex, options } = schema;
-    const { mode, format, prefix, suffix, parts: params } = options;
-    const defaultValue = 'defaultValue' in options ? options.defaultValue : String(schema.defaultValue ?? '');
-    if (mode === 'custom') {
-      return (format || '')
-        .replace(/\{\{(.+?)\}\}/guis, (s, s1) => {
-          try {
-            return stringify(new Function('rec', `return ${s1}`)(data));
-          } catch (error) {
-            return error instanceof Error
-              ? `{{Render Error: ${error.message}}}`
-              : '{{Unknown Render Error}}';
-          }
-        })
-        .split('\n');
-    }
-    if (mode === 'single') {
-      return `${prefix ?? ''}${translate(schema.options.i18n, indexValue(data, dataIndex, defaultValue)) ?? ''}${suffix ?? ''}`.split('\n');
-    }
-    if (mode === 'multiple') {
-      return (params || [])
-        .map((config, i) => `${config.prefix || ''}${translate(config.i18n, indexValue(data, config.dataIndex, defaultValue)) ?? ''}${config.suffix || ''}`)
-        .join('\n')
-        .split('\n');
-    }
-    return [];
+    return renderRawText(this.props.schema, this.props.data, this.props.expressionMode);
   }
 
   private onClick: React.MouseEventHandler<HTMLDivElement> = (e) => {
-    if (this.state.editState !== 'none') {
+    if (this.props.editable === false || this.state.editState !== 'none') {
       return;
     }
     if (window.getSelection()?.type === 'Range') {
@@ -8,7 +8,8 @@
 
 import get from 'lodash/get';
 
-import { DripTableRecordTypeBase } from '@/types';
+import { DripTableExpressionMode, DripTableRecordTypeBase } from '@/types';
+import { evaluateScript, renderTemplate } from '@/drip-table/utils/expression';
 
 /**
  * 格式化变量用于提供给渲染函数
@@ -32,28 +33,20 @@ export const stringify = (v: unknown) => {
  * @param mode 格式化模式
  * @param text 模板字符串
  * @param rec 填充数据源对象
+ * @param expressionMode 表达式执行模式
  * @returns 最终字符串
  */
-export const finalizeString = (mode: 'plain' | 'key' | 'pattern' | 'script', text: string, rec: DripTableRecordTypeBase) => {
+export const finalizeString = (mode: 'plain' | 'key' | 'pattern' | 'script', text: string, rec: DripTableRecordTypeBase, expressionMode?: DripTableExpressionMode) => {
   let value = '';
   if (!mode || mode === 'plain') {
     value = stringify(text);
   } else if (mode === 'key') {
     value = stringify(get(rec, text, ''));
   } else if (mode === 'pattern') {
-    value = stringify(text)
-      .replace(/\{\{(.+?)\}\}/guis, (s, s1) => {
-        try {
-          return stringify(new Function('rec', `return ${s1}`)(rec));
-        } catch (error) {
-          return error instanceof Error
-            ? `{{Render Error: ${error.message}}}`
-            : '{{Unknown Render Error}}';
-        }
-      });
+    value = renderTemplate(stringify(text), rec, expressionMode);
   } else if (mode === 'script') {
     try {
-      value = stringify(new Function('rec', text)(rec));
+      value = stringify(evaluateScript(text, rec, expressionMode));
     } catch (error) {
       value = error instanceof Error
         ? `Render Error: ${error.message}`
@@ -0,0 +1,36 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { type DripTableEditorProps } from './editor';
+
+const DateEditor = ({ driver, options, autoFocus, value, onCommit, onCancel }: DripTableEditorProps) => {
+  const DatePicker = driver.components.DatePicker;
+  return (
+    <DatePicker
+      style={{ width: '100%' }}
+      value={typeof value === 'string' && value ? value : null}
+      format={options.format || (options.showTime ? 'YYYY-MM-DD HH:mm:ss' : 'YYYY-MM-DD')}
+      showTime={options.showTime}
+      allowClear={options.allowClear}
+      placeholder={options.placeholder}
+      autoFocus={autoFocus}
+      defaultOpen={autoFocus}
+      onChange={(v) => { onCommit(v); }}
+      onOpenChange={(open) => {
+        // 未选择日期直接关闭面板时放弃编辑
+        if (!open) {
+          onCancel();
+        }
+      }}
+    />
+  );
+};
+
+export default DateEditor;
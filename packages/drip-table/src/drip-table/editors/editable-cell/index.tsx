@@ -0,0 +1,195 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import classnames from 'classnames';
+import React from 'react';
+
+import { type DripTableColumnSchema, type DripTableDriver, type DripTableRecordTypeBase } from '@/types';
+
+import { type DripTableEditor } from '../editor';
+
+import styles from './index.module.less';
+
+export interface EditableCellProps<RecordType extends DripTableRecordTypeBase> {
+  driver: DripTableDriver;
+  schema: DripTableColumnSchema;
+  record: RecordType;
+  value: unknown;
+  /**
+   * 单元格编辑器
+   */
+  editor: DripTableEditor<RecordType>;
+  /**
+   * 校验编辑结果，返回校验失败提示文案，通过时返回 null
+   */
+  validate?: (value: unknown) => Promise<string | null>;
+  /**
+   * 提交编辑结果
+   */
+  onCommit: (value: unknown) => void;
+  /**
+   * 是否处于行编辑状态：展示编辑器，编辑值仅写入行草稿，由行保存统一提交
+   */
+  rowEditing?: boolean;
+  /**
+   * 行编辑状态下的校验失败提示
+   */
+  error?: string | null;
+  /**
+   * 行编辑状态下编辑值改变
+   */
+  onDraftChange?: (value: unknown) => void;
+  /**
+   * 是否主动进入编辑状态（键盘导航时按下 Enter）
+   */
+  autoEdit?: boolean;
+  /**
+   * 退出编辑状态时触发
+   */
+  onEditEnd?: () => void;
+  /**
+   * 非编辑状态下的单元格展示内容
+   */
+  children: React.ReactNode;
+}
+
+/**
+ * 可编辑单元格：点击进入编辑状态，编辑器提交并通过校验后回写数据，取消时恢复展示
+ */
+const EditableCell = <RecordType extends DripTableRecordTypeBase>(props: EditableCellProps<RecordType>) => {
+  const [editing, setEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState<unknown>(void 0);
+  const [error, setError] = React.useState<string | null>(null);
+  // 编辑器可能在同一次交互中依次触发提交与失焦，仅首次生效
+  const closedRef = React.useRef(true);
+  const validatingRef = React.useRef(false);
+  const draftRef = React.useRef<unknown>(void 0);
+
+  const startEdit = () => {
+    closedRef.current = false;
+    draftRef.current = props.value;
+    setDraft(props.value);
+    setEditing(true);
+  };
+
+  const onChange = (value: unknown) => {
+    draftRef.current = value;
+    setDraft(value);
+  };
+
+  const close = () => {
+    closedRef.current = true;
+    setEditing(false);
+    setError(null);
+    props.onEditEnd?.();
+  };
+
+  React.useEffect(() => {
+    if (props.autoEdit && closedRef.current && !props.rowEditing) {
+      startEdit();
+    }
+  }, [props.autoEdit]);
+
+  const onCommit = (...args: [unknown?]) => {
+    if (closedRef.current || validatingRef.current) {
+      return;
+    }
+    const value = args.length > 0 ? args[0] : draftRef.current;
+    if (value === props.value) {
+      close();
+      return;
+    }
+    if (!props.validate) {
+      close();
+      props.onCommit(value);
+      return;
+    }
+    validatingRef.current = true;
+    props.validate(value).then((message) => {
+      validatingRef.current = false;
+      // 校验过程中已放弃编辑
+      if (closedRef.current) {
+        return;
+      }
+      if (message) {
+        draftRef.current = value;
+        setDraft(value);
+        setError(message);
+        return;
+      }
+      close();
+      props.onCommit(value);
+    });
+  };
+
+  const onCancel = () => {
+    if (closedRef.current) {
+      return;
+    }
+    close();
+  };
+
+  const Editor = props.editor;
+  const Tooltip = props.driver.components.Tooltip;
+  const renderEditor = (
+    autoFocus: boolean,
+    value: unknown,
+    message: string | null | undefined,
+    handlers: Pick<React.ComponentProps<typeof Editor>, 'onChange' | 'onCommit' | 'onCancel'>,
+  ) => (
+    <Tooltip title={message} visible={!!message}>
+      <div
+        className={classnames(styles['editable-cell-editing'], { [styles['editable-cell-error']]: message })}
+        onClick={e => e.stopPropagation()}
+      >
+        <Editor
+          driver={props.driver}
+          schema={props.schema}
+          options={props.schema.editorOptions || {}}
+          record={props.record}
+          autoFocus={autoFocus}
+          value={value}
+          {...handlers}
+        />
+      </div>
+    </Tooltip>
+  );
+
+  if (props.rowEditing) {
+    const onDraftChange = (value: unknown) => props.onDraftChange?.(value);
+    return renderEditor(false, props.value, props.error, {
+      onChange: onDraftChange,
+      onCommit: (...args: [unknown?]) => {
+        if (args.length > 0) {
+          onDraftChange(args[0]);
+        }
+      },
+      onCancel: () => void 0,
+    });
+  }
+
+  if (!editing) {
+    return (
+      <div
+        className={styles['editable-cell']}
+        onClick={() => {
+          // 选择文本时不进入编辑状态
+          if (window.getSelection()?.type !== 'Range') {
+            startEdit();
+          }
+        }}
+      >
+        { props.children }
+      </div>
+    );
+  }
+
+  return renderEditor(true, draft, error, { onChange, onCommit, onCancel });
+};
+
+export default EditableCell;
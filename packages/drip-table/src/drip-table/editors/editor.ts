@@ -0,0 +1,56 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableColumnSchema, type DripTableDriver, type DripTableEditorOptions, type DripTableRecordTypeBase } from '@/types';
+
+export interface DripTableEditorProps<
+  RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase,
+  ColumnSchema extends DripTableColumnSchema = DripTableColumnSchema,
+> {
+  /**
+   * 底层渲染驱动
+   */
+  driver: DripTableDriver;
+  /**
+   * 当前编辑列参数
+   */
+  schema: ColumnSchema;
+  /**
+   * 编辑器配置项（`schema.editorOptions`）
+   */
+  options: DripTableEditorOptions;
+  /**
+   * 当前编辑行数据结构
+   */
+  record: RecordType;
+  /**
+   * 是否自动聚焦并展开下拉面板，单元格编辑时为 true，行编辑时为 false
+   */
+  autoFocus: boolean;
+  /**
+   * 当前编辑中的值
+   */
+  value: unknown;
+  /**
+   * 编辑中的值改变，仅更新草稿，不提交
+   */
+  onChange: (value: unknown) => void;
+  /**
+   * 提交编辑，不传值时提交当前草稿，多次调用仅首次生效
+   */
+  onCommit: (value?: unknown) => void;
+  /**
+   * 放弃编辑
+   */
+  onCancel: () => void;
+}
+
+/**
+ * 单元格编辑器组件
+ */
+export type DripTableEditor<RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase> = React.JSXElementConstructor<DripTableEditorProps<RecordType>>;
@@ -0,0 +1,29 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableBuiltInEditorType } from '@/types';
+
+import DateEditor from './date';
+import { type DripTableEditor } from './editor';
+import NumberEditor from './number';
+import SelectEditor from './select';
+import SwitchEditor from './switch';
+import TextEditor from './text';
+import TextareaEditor from './textarea';
+
+export type { DripTableEditor, DripTableEditorProps } from './editor';
+
+const DripTableBuiltInEditors: Record<DripTableBuiltInEditorType, DripTableEditor> = {
+  text: TextEditor,
+  textarea: TextareaEditor,
+  number: NumberEditor,
+  select: SelectEditor,
+  date: DateEditor,
+  switch: SwitchEditor,
+};
+export default DripTableBuiltInEditors;
@@ -0,0 +1,38 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { type DripTableEditorProps } from './editor';
+
+const NumberEditor = ({ driver, options, autoFocus, value, onChange, onCommit, onCancel }: DripTableEditorProps) => {
+  const InputNumber = driver.components.InputNumber;
+  const num = typeof value === 'number' ? value : Number.parseFloat(String(value));
+  return (
+    <InputNumber
+      style={{ width: '100%' }}
+      value={Number.isNaN(num) ? null : num}
+      autoFocus={autoFocus}
+      min={options.min}
+      max={options.max}
+      step={options.step}
+      precision={options.precision}
+      placeholder={options.placeholder}
+      onChange={(v) => { onChange(v); }}
+      onBlur={() => { onCommit(); }}
+      onPressEnter={() => { onCommit(); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+    />
+  );
+};
+
+export default NumberEditor;
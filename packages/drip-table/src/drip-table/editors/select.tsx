@@ -0,0 +1,44 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { type DripTableEditorProps } from './editor';
+
+const SelectEditor = ({ driver, options, autoFocus, value, onChange, onCommit, onCancel }: DripTableEditorProps) => {
+  const Select = driver.components.Select;
+  return (
+    <Select<string | number | (string | number)[]>
+      style={{ width: '100%' }}
+      value={value as string | number | (string | number)[]}
+      mode={options.multiple ? 'multiple' : void 0}
+      autoFocus={autoFocus}
+      defaultOpen={autoFocus}
+      allowClear={options.allowClear}
+      placeholder={options.placeholder}
+      onChange={(v) => {
+        // 单选时选中即提交，多选时失焦提交
+        if (options.multiple) {
+          onChange(v);
+        } else {
+          onCommit(v);
+        }
+      }}
+      onBlur={() => { onCommit(); }}
+      onInputKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+    >
+      { (options.options || []).map(option => <Select.Option key={option.value} value={option.value}>{ option.label }</Select.Option>) }
+    </Select>
+  );
+};
+
+export default SelectEditor;
@@ -0,0 +1,34 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { type DripTableEditorProps } from './editor';
+
+const SwitchEditor = ({ driver, options, autoFocus, value, onCommit, onCancel }: DripTableEditorProps) => {
+  const Switch = driver.components.Switch;
+  const checkedValue = options.checkedValue ?? true;
+  const uncheckedValue = options.uncheckedValue ?? false;
+  return (
+    <Switch
+      checked={value === checkedValue}
+      checkedChildren={options.checkedText}
+      unCheckedChildren={options.uncheckedText}
+      autoFocus={autoFocus}
+      onChange={(checked) => { onCommit(checked ? checkedValue : uncheckedValue); }}
+      onBlur={() => { onCancel(); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+    />
+  );
+};
+
+export default SwitchEditor;
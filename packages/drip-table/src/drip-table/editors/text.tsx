@@ -0,0 +1,35 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { stringify } from '../utils';
+import { type DripTableEditorProps } from './editor';
+
+const TextEditor = ({ driver, options, autoFocus, value, onChange, onCommit, onCancel }: DripTableEditorProps) => {
+  const Input = driver.components.Input;
+  return (
+    <Input
+      style={{ width: '100%' }}
+      value={value === null ? '' : stringify(value)}
+      autoFocus={autoFocus}
+      maxLength={options.maxLength}
+      placeholder={options.placeholder}
+      onChange={(e) => { onChange(e.target.value); }}
+      onBlur={() => { onCommit(); }}
+      onPressEnter={() => { onCommit(); }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+    />
+  );
+};
+
+export default TextEditor;
@@ -0,0 +1,38 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import React from 'react';
+
+import { stringify } from '../utils';
+import { type DripTableEditorProps } from './editor';
+
+const TextareaEditor = ({ driver, options, autoFocus, value, onChange, onCommit, onCancel }: DripTableEditorProps) => {
+  const TextArea = driver.components.Input.TextArea;
+  return (
+    <TextArea
+      style={{ width: '100%' }}
+      value={value === null ? '' : stringify(value)}
+      autoFocus={autoFocus}
+      autoSize
+      maxLength={options.maxLength}
+      placeholder={options.placeholder}
+      onChange={(e) => { onChange(e.target.value); }}
+      onBlur={() => { onCommit(); }}
+      onKeyDown={(e) => {
+        // Enter 换行，Ctrl/Cmd + Enter 提交
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+          onCommit();
+        } else if (e.key === 'Escape') {
+          onCancel();
+        }
+      }}
+    />
+  );
+};
+
+export default TextareaEditor;
@@ -10,27 +10,53 @@ import classnames from 'classnames';
 import React, { useRef } from 'react';
 
 import {
+  type DripTableCursorPagination,
   type DripTableDriver,
+  type DripTableEditPatch,
+  type DripTableExpressionMode,
   type DripTableExtraOptions,
+  type DripTableFetcher,
   type DripTableFilters,
   type DripTablePagination,
+  type DripTablePasteError,
+  type DripTablePersistence,
   type DripTableReactComponentProps,
   type DripTableRecordTypeBase,
   type DripTableRecordTypeWithSubtable,
   type DripTableSchema,
+  type DripTableSorter,
   type DripTableTableInformation,
+  type DripTableValidationError,
   type SchemaObject,
 } from '@/types';
-import { type DripTableDriverTableProps } from '@/types/driver/table';
+import { type DripTableDriverTableProps, type DripTableDriverTableSorterResult } from '@/types/driver/table';
 import { AjvOptions, validateDripTableColumnSchema, validateDripTableProp, validateDripTableRequiredProps } from '@/utils/ajv';
+import CursorPager from '@/components/cursor-pager';
 import ErrorBoundary from '@/components/error-boundary';
+import FocusCell, { isFocusCellElement } from '@/components/focus-cell';
 import GenericRender, { DripTableGenericRenderElement } from '@/components/generic-render';
+import HeaderCell, { type HeaderCellProps } from '@/components/header-cell';
 import RichText from '@/components/rich-text';
 import { useState, useTable } from '@/hooks';
 
 import DripTableWrapper, { DripTableID } from '..';
 import DripTableBuiltInComponents, { DripTableBuiltInColumnSchema, DripTableBuiltInComponentEvent, DripTableComponentProps } from './components';
-import { setValue } from './utils';
+import DTCText, { DTCTextColumnSchema } from './components/text';
+import DripTableBuiltInEditors, { type DripTableEditor } from './editors';
+import EditableCell from './editors/editable-cell';
+import { assignValue, indexValue, setValue } from './utils';
+import { parseCellText, parseTSV, toTSV } from './utils/clipboard';
+import { flattenColumnNodes, flattenColumns, isDripTableColumnGroup, isRowEditColumn, mapColumns, moveColumn, sortColumns } from './utils/column';
+import { cellToText, createComponentResolver } from './utils/export';
+import { pushEditPatches } from './utils/history';
+import { type DripTableCellKey, type DripTableCellPosition, getPageData, moveCellPosition } from './utils/navigation';
+import { type DripTableDataPredicates, processDataSource } from './utils/pipeline';
+import { canSelectAllPages, isRowSelectionDisabled, normalizeRowSelection } from './utils/selection';
+import { getDefaultSorter, sortDataSource } from './utils/sorter';
+import { type DripTableAggregator, summarize } from './utils/summary';
+import { formatText, resolveTexts } from './utils/texts';
+import { buildTreeData, findTreeRecord, flattenVisibleTreeRows, getExpandableTreeRowKeys, getTreeRowKeys, shouldLoadTreeChildren, updateTreeRecord } from './utils/tree';
+import { type DripTableValidator, validateValue } from './utils/validation';
 import VirtualTable from './virtual-table';
 
 import styles from './index.module.less';
@@ -57,6 +83,19 @@ const DEFAULT_SUBTABLE_PROPS: DripTableSubtableProps = {
   defaultExpandedRowKeys: void 0,
 };
 
+/**
+ * 将底层表格组件返回的排序信息转换为排序状态
+ * @param sorterResult 底层表格排序信息
+ * @returns 排序状态
+ */
+const parseSorterResult = (sorterResult: DripTableDriverTableSorterResult | DripTableDriverTableSorterResult[] | undefined): DripTableSorter | null => {
+  const result = Array.isArray(sorterResult) ? sorterResult[0] : sorterResult;
+  if (result && result.order && result.columnKey !== void 0) {
+    return { key: String(result.columnKey), order: result.order };
+  }
+  return null;
+};
+
 export interface DripTableProps<
   RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
   ExtraOptions extends Partial<DripTableExtraOptions> = never,
@@ -89,6 +128,10 @@ export interface DripTableProps<
    * 当前显示的列键
    */
   displayColumnKeys?: React.Key[];
+  /**
+   * 当前列顺序（列 key 数组），设置后列顺序受控
+   */
+  columnOrder?: string[];
   /**
    * 数据源总条数
    */
@@ -97,10 +140,47 @@ export interface DripTableProps<
    * 当前页码
    */
   currentPage?: number;
+  /**
+   * 游标分页的上一页、下一页游标与预估总条数，设置后优先于表格状态；设置 fetcher 时由请求结果自动提供
+   */
+  cursorPagination?: Partial<Pick<DripTableCursorPagination, 'prevCursor' | 'nextCursor' | 'estimatedTotal'>>;
   /**
    * 加载中
    */
   loading?: boolean;
+  /**
+   * 远程数据源请求函数，设置后表格在加载以及分页、过滤、排序、搜索变化时自动请求数据
+   */
+  fetcher?: DripTableFetcher<RecordType>;
+  /**
+   * 远程数据源请求设置
+   */
+  fetcherOptions?: {
+    /**
+     * 请求防抖毫秒数
+     */
+    debounce?: number;
+    /**
+     * 请求失败重试次数
+     */
+    retryTimes?: number;
+    /**
+     * 请求失败重试间隔毫秒数
+     */
+    retryDelay?: number;
+  };
+  /**
+   * 表格视图状态（展示列、列宽、列顺序、排序、过滤、每页条数）持久化设置
+   */
+  persistence?: DripTablePersistence;
+  /**
+   * 前端数据模式下自定义列过滤、搜索判定函数
+   */
+  dataPredicates?: DripTableDataPredicates<RecordType>;
+  /**
+   * 汇总行自定义聚合函数，键名为 schema.summary 中 aggregate 填写的函数名
+   */
+  aggregators?: Record<string, DripTableAggregator<RecordType>>;
   /**
    * 冻结表头和滚动条设置项
    */
@@ -143,9 +223,21 @@ export interface DripTableProps<
       NonNullable<ExtraOptions['CustomComponentEvent']>,
       NonNullable<ExtraOptions['CustomComponentExtraData']>
       >
-      > & { schema?: SchemaObject };
+      > & { schema?: SchemaObject; toText?: (schema: NonNullable<ExtraOptions['CustomColumnSchema']>, data: RecordType, expressionMode?: DripTableExpressionMode) => string };
+    };
+  };
+  /**
+   * 单元格编辑器库，列通过 `editor: '库名::编辑器名'` 引用
+   */
+  editors?: {
+    [libName: string]: {
+      [editorName: string]: DripTableEditor<RecordType>;
     };
   };
+  /**
+   * 自定义单元格编辑校验函数，列校验规则通过 `validator` 字段按名称引用
+   */
+  validators?: Record<string, DripTableValidator<RecordType>>;
   /**
    * 组件插槽，可通过 Schema 控制自定义区域渲染
    */
@@ -243,6 +335,14 @@ export interface DripTableProps<
     selectedRows: RecordType[],
     tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
   ) => void;
+  /**
+   * 跨页全选状态变化：进入或退出跨页全选，以及跨页全选状态下取消选中、重新选中行时
+   */
+  onSelectAllPagesChange?: (
+    selectAllPages: boolean,
+    excludedRowKeys: React.Key[],
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
   /**
    * 搜索触发
    */
@@ -273,12 +373,49 @@ export interface DripTableProps<
     tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
   ) => void;
   /**
-   * 过滤器、分页器 等配置变化
+   * 树形数据懒加载模式下展开尚未加载子节点的行时触发，返回该行的子节点；返回被拒绝的 Promise 时收起该行，再次展开时重新加载
+   */
+  onLoadChildren?: (
+    record: RecordType,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => Promise<RecordType[]>;
+  /**
+   * 树形数据懒加载子节点失败时触发，此时该行已收起
+   */
+  onLoadChildrenError?: (
+    error: unknown,
+    record: RecordType,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 游标分页模式下切换页面或每页条数时触发，首页游标为 null
+   */
+  onCursorChange?: (
+    cursor: string | null,
+    pageSize: number,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 滚动加载或点击加载更多时触发，返回 false 表示没有更多数据；返回被拒绝的 Promise 时展示加载失败并允许重试
+   */
+  onLoadMore?: (
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => Promise<boolean | void> | boolean | void;
+  /**
+   * 排序变化
+   */
+  onSortChange?: (
+    sorter: DripTableSorter | null,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 过滤器、分页器、排序 等配置变化
    */
   onChange?: (
     options: {
       pagination: DripTablePagination;
       filters: DripTableFilters;
+      sorter: DripTableSorter | null;
     },
     tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
   ) => void;
@@ -296,6 +433,52 @@ export interface DripTableProps<
     displayColumnKeys: React.Key[],
     tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
   ) => void;
+  /**
+   * 用户调整列顺序时
+   */
+  onColumnOrderChange?: (
+    columnOrder: string[],
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 单元格编辑未通过校验时，此时不会触发 onDataSourceChange
+   */
+  onValidationError?: (
+    error: DripTableValidationError<RecordType>,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 粘贴单元格区域时存在无法粘贴的单元格，此时其余单元格正常粘贴
+   */
+  onPasteError?: (
+    errors: DripTablePasteError<RecordType>[],
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 行编辑保存时，草稿通过校验后触发，返回被拒绝的 Promise 时保持编辑状态；保存成功后新数据源同时通过 onDataSourceChange 通知
+   */
+  onRowSave?: (
+    record: RecordType,
+    draft: RecordType,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void | Promise<void>;
+  /**
+   * 用户拖拽调整行顺序时，新数据源同时通过 onDataSourceChange 通知
+   */
+  onRowOrderChange?: (
+    dataSource: RecordType[],
+    from: number,
+    to: number,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
+  /**
+   * 用户拖拽调整列宽结束时
+   */
+  onColumnWidthChange?: (
+    key: string,
+    width: number,
+    tableInfo: DripTableTableInformation<RecordType, ExtraOptions>,
+  ) => void;
   /**
    * 通用事件机制
    */
@@ -316,14 +499,14 @@ const DripTable = <
   RecordType extends DripTableRecordTypeWithSubtable<DripTableRecordTypeBase, NonNullable<ExtraOptions['SubtableDataSourceKey']>>,
   ExtraOptions extends Partial<DripTableExtraOptions> = never,
 >(props: DripTableProps<RecordType, ExtraOptions>): JSX.Element => {
-  if (props.schema?.columns?.some(c => c['ui:type'] || c['ui:props'])) {
+  if (props.schema?.columns && flattenColumns(props.schema.columns).some(c => c['ui:type'] || c['ui:props'])) {
     props = {
       ...props,
       schema: Object.assign(
         {},
         props.schema,
         {
-          columns: props.schema?.columns?.map((column) => {
+          columns: mapColumns(props.schema.columns, (column) => {
           // 兼容旧版本数据
             if ('ui:type' in column || 'ui:props' in column) {
               const key = column.key;
@@ -363,13 +546,19 @@ const DripTable = <
   }
 
   const Table = props.driver.components?.Table;
+  const Button = props.driver.components?.Button;
+  const Result = props.driver.components?.Result;
+  const Spin = props.driver.components?.Spin;
   const Popover = props.driver.components?.Popover;
+  const MenuOutlined = props.driver.icons?.MenuOutlined;
   const QuestionCircleOutlined = props.driver.icons?.QuestionCircleOutlined;
   type TableColumn = NonNullable<DripTableReactComponentProps<typeof Table>['columns']>[number];
 
   const initialState = useTable();
   const initialPagination = props.schema?.pagination || void 0;
-  const [tableState, setTableState] = initialState._CTX_SOURCE === 'CONTEXT' ? useState(initialState) : [initialState, initialState.setTableState];
+  const [tableState, setTableState] = initialState._CTX_SOURCE === 'CONTEXT'
+    ? useState<typeof initialState>({ ...initialState, sorter: getDefaultSorter(flattenColumns(props.schema.columns)) })
+    : [initialState, initialState.setTableState];
   const rootRef = useRef<HTMLDivElement>(null); // ProTable组件的ref
 
   const tableInfo = React.useMemo((): DripTableTableInformation<RecordType, ExtraOptions> => ({
@@ -378,6 +567,9 @@ const DripTable = <
     parent: props.__PARENT_INFO__,
   }), [props.schema, props.dataSource, props.__PARENT_INFO__]);
 
+  const paginationMode = props.schema.pagination === false ? void 0 : props.schema.pagination?.mode ?? 'page';
+  const texts = React.useMemo(() => resolveTexts(props.schema.texts), [props.schema.texts]);
+
   React.useEffect(() => {
     setTableState(state => ({
       pagination: {
@@ -387,12 +579,25 @@ const DripTable = <
     }));
   }, [initialPagination?.pageSize]);
 
+  const leafColumns = React.useMemo(() => flattenColumns(props.schema.columns), [props.schema.columns]);
+
   React.useEffect(() => {
     setTableState(state => ({
-      displayColumnKeys: props.displayColumnKeys || props.schema.columns.filter(c => c.hidable).map(c => c.key),
+      displayColumnKeys: props.displayColumnKeys || flattenColumnNodes(props.schema.columns).map(n => n.column).filter(c => c.hidable).map(c => c.key),
     }));
   }, [props.displayColumnKeys]);
 
+  const defaultSorter = getDefaultSorter(leafColumns);
+  const defaultSorterRef = useRef(defaultSorter);
+  React.useEffect(() => {
+    // 初始排序在创建表格状态时已经设置，此处仅响应默认排序设置的变化
+    if (defaultSorterRef.current?.key === defaultSorter?.key && defaultSorterRef.current?.order === defaultSorter?.order) {
+      return;
+    }
+    defaultSorterRef.current = defaultSorter;
+    setTableState({ sorter: defaultSorter });
+  }, [defaultSorter?.key, defaultSorter?.order]);
+
   React.useEffect(() => {
     props.componentDidMount?.(tableInfo);
     return () => {
@@ -404,6 +609,252 @@ const DripTable = <
     props.componentDidUpdate?.(tableInfo);
   }, [props]);
 
+  /**
+   * 获取行主键
+   * @param record 行数据
+   * @returns 行主键
+   */
+  const rowKeyOf = (record: RecordType) => String(record[props.schema.rowKey ?? 'key']);
+
+  /**
+   * 按行主键查找行在传入数据源中的数据，树形数据中包括子节点与懒加载的子节点
+   * @param record 行数据
+   * @returns 行数据，未找到时返回 undefined
+   */
+  const findRecord = (record: RecordType) => findTreeRecord(props.dataSource, props.schema.tree, props.schema.rowKey ?? 'key', rowKeyOf(record), tableState.loadedChildren);
+
+  /**
+   * 按行主键更新数据源中的行，树形数据中沿查找路径回写
+   * @param dataSource 数据源
+   * @param record 行数据
+   * @param update 行数据更新函数
+   * @returns 新的数据源，未找到行时返回 null
+   */
+  const updateRecord = (dataSource: readonly RecordType[], record: RecordType, update: (rec: RecordType) => RecordType) =>
+    updateTreeRecord(dataSource, props.schema.tree, props.schema.rowKey ?? 'key', rowKeyOf(record), update, tableState.loadedChildren);
+
+  /**
+   * 记录数据编辑历史
+   * @param patches 本次操作中各行的编辑记录
+   */
+  const recordEditPatches = (patches: DripTableEditPatch[]) => {
+    setTableState(state => ({ editHistory: pushEditPatches(state.editHistory, patches) }));
+  };
+
+  /**
+   * 按行主键回写单元格数据，并通知数据源变化
+   * @param record 行数据
+   * @param dataIndex 列数据索引
+   * @param value 新值
+   */
+  const setCellValue = (record: RecordType, dataIndex: string | string[], value: unknown) => {
+    const current = findRecord(record);
+    const ds = current ? updateRecord(props.dataSource, record, rec => assignValue(rec, dataIndex, value)) : null;
+    if (!current || !ds) {
+      return;
+    }
+    const from = indexValue(current, dataIndex);
+    if (from !== value) {
+      recordEditPatches([{ rowKey: rowKeyOf(record), changes: [{ dataIndex, from, to: value }] }]);
+    }
+    props.onDataSourceChange?.(ds, tableInfo);
+  };
+
+  /**
+   * 按列校验规则校验单元格编辑值，未通过时触发 onValidationError
+   * @param schema 列 Schema
+   * @param record 行数据
+   * @param value 编辑值
+   * @returns 校验失败提示文案，通过时返回 null
+   */
+  const validateCellValue = async (
+    schema: DripTableBuiltInColumnSchema | NonNullable<ExtraOptions['CustomColumnSchema']>,
+    record: RecordType,
+    value: unknown,
+  ): Promise<string | null> => {
+    const message = await validateValue(value, record, schema.validation || [], props.validators);
+    if (message) {
+      props.onValidationError?.({ columnKey: schema.key, dataIndex: schema.dataIndex, record, value, message }, tableInfo);
+    }
+    return message;
+  };
+
+  /**
+   * 校验并回写单元格数据，未配置校验规则时直接回写
+   * @param schema 列 Schema
+   * @param record 行数据
+   * @param value 编辑值
+   */
+  const commitCellValue = (
+    schema: DripTableBuiltInColumnSchema | NonNullable<ExtraOptions['CustomColumnSchema']>,
+    record: RecordType,
+    value: unknown,
+  ) => {
+    if (!schema.validation?.length) {
+      setCellValue(record, schema.dataIndex, value);
+      return;
+    }
+    validateCellValue(schema, record, value).then((message) => {
+      if (!message) {
+        setCellValue(record, schema.dataIndex, value);
+      }
+    });
+  };
+
+  const keyboardNavigation = !!props.schema.keyboardNavigation;
+  const rangeSelection = !!props.schema.rangeSelection;
+  // 键盘导航与区域选择均基于焦点单元格
+  const focusable = keyboardNavigation || rangeSelection;
+  const [focusedCell, setFocusedCell] = React.useState<DripTableCellKey & { token: number } | null>(null);
+  const [editRequest, setEditRequest] = React.useState<DripTableCellKey | null>(null);
+  const [cellRange, setCellRange] = React.useState<{ anchor: DripTableCellKey; extent: DripTableCellKey } | null>(null);
+  const focusTokenRef = useRef(0);
+  const rangeDraggingRef = useRef(false);
+
+  React.useEffect(() => {
+    if (!rangeSelection) {
+      return void 0;
+    }
+    const onMouseUp = () => { rangeDraggingRef.current = false; };
+    document.addEventListener('mouseup', onMouseUp);
+    return () => document.removeEventListener('mouseup', onMouseUp);
+  }, [rangeSelection]);
+
+  /**
+   * 移动焦点单元格并主动获取焦点
+   * @param rowKey 行主键
+   * @param columnKey 列 key
+   */
+  const focusCell = (rowKey: string, columnKey: string) => {
+    focusTokenRef.current += 1;
+    setFocusedCell({ rowKey, columnKey, token: focusTokenRef.current });
+  };
+
+  /**
+   * 单元格退出编辑状态，编辑器卸载导致焦点丢失时焦点回到单元格
+   * @param rowKey 行主键
+   * @param columnKey 列 key
+   */
+  const onCellEditEnd = (rowKey: string, columnKey: string) => {
+    setEditRequest(null);
+    // 等待焦点转移完成：点击其他单元格结束编辑时不抢占焦点
+    window.setTimeout(() => {
+      if (!document.activeElement || document.activeElement === document.body) {
+        focusCell(rowKey, columnKey);
+      }
+    });
+  };
+
+  const [rowErrors, setRowErrors] = React.useState<Record<string, Record<string, string>>>({});
+  const savingRowKeys = useRef(new Set<string>());
+
+  /**
+   * 行编辑列：配置了编辑器且未关闭编辑的列
+   */
+  const rowEditColumns = leafColumns.filter(isRowEditColumn);
+
+  /**
+   * 进入行编辑状态
+   * @param record 行数据
+   */
+  const startRowEdit = (record: RecordType) => {
+    const key = rowKeyOf(record);
+    setTableState(state => (key in state.rowDrafts ? {} : { rowDrafts: { ...state.rowDrafts, [key]: { record, draft: record } } }));
+    setRowErrors(errors => Object.fromEntries(Object.entries(errors).filter(([k]) => k !== key)));
+  };
+
+  /**
+   * 退出行编辑状态，丢弃草稿
+   * @param record 行数据
+   */
+  const cancelRowEdit = (record: RecordType) => {
+    const key = rowKeyOf(record);
+    setTableState(state => ({ rowDrafts: Object.fromEntries(Object.entries(state.rowDrafts).filter(([k]) => k !== key)) }));
+    setRowErrors(errors => Object.fromEntries(Object.entries(errors).filter(([k]) => k !== key)));
+  };
+
+  /**
+   * 更新行草稿
+   * @param key 行主键
+   * @param schema 列 Schema
+   * @param value 编辑值
+   */
+  const updateRowDraft = (key: string, schema: DripTableBuiltInColumnSchema | NonNullable<ExtraOptions['CustomColumnSchema']>, value: unknown) => {
+    setTableState((state) => {
+      const rowDraft = state.rowDrafts[key];
+      return rowDraft
+        ? { rowDrafts: { ...state.rowDrafts, [key]: { ...rowDraft, draft: assignValue(rowDraft.draft, schema.dataIndex, value) } } }
+        : {};
+    });
+    setRowErrors(errors => (errors[key]?.[schema.key] ? { ...errors, [key]: { ...errors[key], [schema.key]: '' } } : errors));
+  };
+
+  /**
+   * 校验并保存行草稿，保存成功后回写数据源并退出行编辑状态
+   * @param record 行数据
+   */
+  const saveRowEdit = async (record: RecordType) => {
+    const key = rowKeyOf(record);
+    const rowDraft = tableState.rowDrafts[key];
+    if (!rowDraft || savingRowKeys.current.has(key)) {
+      return;
+    }
+    const draft = rowDraft.draft as RecordType;
+    savingRowKeys.current.add(key);
+    try {
+      const messages = await Promise.all(rowEditColumns.map(column => validateCellValue(column, draft, indexValue(draft, column.dataIndex))));
+      if (messages.some(Boolean)) {
+        setRowErrors(errors => ({ ...errors, [key]: Object.fromEntries(rowEditColumns.map((column, i) => [column.key, messages[i] || ''])) }));
+        return;
+      }
+      await props.onRowSave?.(rowDraft.record as RecordType, draft, tableInfo);
+    } catch {
+      // 保存失败时保持编辑状态，失败原因由使用方提示
+      return;
+    } finally {
+      savingRowKeys.current.delete(key);
+    }
+    cancelRowEdit(record);
+    const current = findRecord(record);
+    if (current) {
+      const changes = rowEditColumns
+        .map(column => ({ dataIndex: column.dataIndex, from: indexValue(current, column.dataIndex), to: indexValue(draft, column.dataIndex) }))
+        .filter(change => change.from !== change.to);
+      // 仅回写行编辑列，避免覆盖编辑期间数据源的其他变化
+      const ds = updateRecord(props.dataSource, record, rec => changes.reduce((r, change) => assignValue(r, change.dataIndex, change.to), rec));
+      if (changes.length > 0) {
+        recordEditPatches([{ rowKey: key, changes }]);
+      }
+      if (ds) {
+        props.onDataSourceChange?.(ds, tableInfo);
+      }
+    }
+  };
+
+  /**
+   * 触发单元格组件事件，内置行编辑按钮事件由表格处理后继续透传给 onEvent
+   * @param event 组件事件
+   * @param record 行数据
+   * @param index 行号
+   */
+  const fireCellEvent = (
+    event: DripTableBuiltInComponentEvent | NonNullable<ExtraOptions['CustomComponentEvent']>,
+    record: RecordType,
+    index: number,
+  ) => {
+    const builtInEvent = event as DripTableBuiltInComponentEvent;
+    if (builtInEvent.type === 'drip-button-click') {
+      if (builtInEvent.payload === 'drip-row-edit') {
+        startRowEdit(record);
+      } else if (builtInEvent.payload === 'drip-row-save') {
+        saveRowEdit(record);
+      } else if (builtInEvent.payload === 'drip-row-cancel') {
+        cancelRowEdit(record);
+      }
+    }
+    props.onEvent?.(event, record, index, { ...tableInfo, record });
+  };
+
   /**
    * 根据组件类型，生成表格渲染器
    * @param schema Schema
@@ -413,13 +864,8 @@ const DripTable = <
     if ('component' in schema) {
       const BuiltInComponent = DripTableBuiltInComponents[schema.component] as
         React.JSXElementConstructor<DripTableComponentProps<RecordType, DripTableBuiltInColumnSchema>> & { schema?: SchemaObject };
-      const onChange = (record: RecordType, index: number, value: unknown) => {
-        const ds = [...props.dataSource];
-        const rec = { ...record };
-        setValue(rec, schema.dataIndex, value);
-        ds[index] = rec;
-        props.onDataSourceChange?.(ds, tableInfo);
-      };
+      // 配置了编辑器的列由编辑器负责编辑，组件自身不再进入编辑模式
+      const editable = !schema.editor && (schema.editable ?? props.schema.editable);
       if (BuiltInComponent) {
         if (props.ajv !== false) {
           const errorMessage = validateDripTableColumnSchema(schema, BuiltInComponent.schema, props.ajv);
@@ -436,11 +882,13 @@ const DripTable = <
             driver={props.driver}
             value={value ?? schema.defaultValue}
             data={record}
-            editable={props.schema.editable}
-            onChange={v => onChange(record, index, v)}
+            editable={editable}
+            rowEditing={rowKeyOf(record) in tableState.rowDrafts}
+            expressionMode={props.schema.expressionMode}
+            onChange={v => commitCellValue(schema, record, v)}
             schema={schema as unknown as DripTableBuiltInColumnSchema}
             ext={props.ext}
-            fireEvent={event => props.onEvent?.(event, record, index, { ...tableInfo, record })}
+            fireEvent={event => fireCellEvent(event, record, index)}
           />
         );
       }
@@ -463,11 +911,13 @@ const DripTable = <
               driver={props.driver}
               value={value ?? schema.defaultValue}
               data={record}
-              editable={props.schema.editable}
-              onChange={v => onChange(record, index, v)}
+              editable={editable}
+              rowEditing={rowKeyOf(record) in tableState.rowDrafts}
+              expressionMode={props.schema.expressionMode}
+              onChange={v => commitCellValue(schema, record, v)}
               schema={schema as NonNullable<ExtraOptions['CustomColumnSchema']>}
               ext={props.ext}
-              fireEvent={event => props.onEvent?.(event, record, index, { ...tableInfo, record })}
+              fireEvent={event => fireCellEvent(event, record, index)}
             />
           );
         }
@@ -476,13 +926,164 @@ const DripTable = <
     return () => <div className={styles['ajv-error']}>{ `Unknown column component: ${schema.component}` }</div>;
   };
 
+  /**
+   * 查找单元格编辑器
+   * @param editor 编辑器类型，自定义编辑器格式为 `库名::编辑器名`
+   * @returns 单元格编辑器
+   */
+  const resolveEditor = (editor: string): DripTableEditor<RecordType> | undefined => {
+    const [libName, editorName] = editor.split('::');
+    if (libName && editorName) {
+      return props.editors?.[libName]?.[editorName];
+    }
+    return DripTableBuiltInEditors[editor as keyof typeof DripTableBuiltInEditors];
+  };
+
+  /**
+   * 根据列编辑器配置，为单元格渲染器附加编辑能力
+   * @param schema Schema
+   * @param render 单元格渲染器
+   * @returns 表格渲染器
+   */
+  const editableRenderGenerator = (
+    schema: DripTableBuiltInColumnSchema | NonNullable<ExtraOptions['CustomColumnSchema']>,
+    render: (value: unknown, record: RecordType, index: number) => JSX.Element | string | null,
+  ): (value: unknown, record: RecordType, index: number) => JSX.Element | string | null => {
+    if (!schema.editor || schema.editable === false) {
+      return render;
+    }
+    const Editor = resolveEditor(schema.editor);
+    if (!Editor) {
+      return () => <div className={styles['ajv-error']}>{ `Unknown column editor: ${schema.editor}` }</div>;
+    }
+    const cellEditable = schema.editable ?? props.schema.editable;
+    return (value, record, index) => {
+      const key = rowKeyOf(record);
+      const rowDraft = tableState.rowDrafts[key];
+      if (!rowDraft && !cellEditable) {
+        return render(value, record, index);
+      }
+      return (
+        <EditableCell
+          driver={props.driver}
+          schema={schema}
+          record={rowDraft ? rowDraft.draft as RecordType : record}
+          value={rowDraft ? indexValue(rowDraft.draft, schema.dataIndex) : value}
+          editor={Editor}
+          validate={schema.validation?.length ? v => validateCellValue(schema, record, v) : void 0}
+          onCommit={v => setCellValue(record, schema.dataIndex, v)}
+          rowEditing={!!rowDraft}
+          error={rowErrors[key]?.[schema.key]}
+          onDraftChange={v => updateRowDraft(key, schema, v)}
+          autoEdit={editRequest?.rowKey === key && editRequest.columnKey === schema.key}
+          onEditEnd={focusable ? () => onCellEditEnd(key, schema.key) : void 0}
+        >
+          { render(value, record, index) }
+        </EditableCell>
+      );
+    };
+  };
+
+  /**
+   * 键盘导航或区域选择模式下，为单元格渲染器附加焦点单元格
+   * @param columnKey 列 key
+   * @param render 单元格渲染器
+   * @returns 表格渲染器
+   */
+  const focusRenderGenerator = (
+    columnKey: string,
+    render: (value: unknown, record: RecordType, index: number) => JSX.Element | string | null,
+  ) => (value: unknown, record: RecordType, index: number) => {
+    const rowKey = rowKeyOf(record);
+    const focused = focusedCell?.rowKey === rowKey && focusedCell.columnKey === columnKey;
+    return (
+      <FocusCell
+        focused={focused}
+        // 尚无焦点单元格时，首行首列可通过 Tab 键进入表格
+        tabbable={focusedCell ? focused : index === 0 && columnKey === flattenColumns(displayColumns)[0]?.key}
+        focusToken={focusedCell && focused ? focusedCell.token : 0}
+        selected={selectedRange?.rowKeys.has(rowKey) && selectedRange.columnKeys.has(columnKey)}
+        onFocus={() => {
+          if (!focused) {
+            setFocusedCell({ rowKey, columnKey, token: 0 });
+          }
+        }}
+        onMouseDown={rangeSelection
+          ? (e) => {
+            if (e.button !== 0) {
+              return;
+            }
+            rangeDraggingRef.current = true;
+            const cell = { rowKey, columnKey };
+            // Shift + 点击从当前焦点单元格扩展选择区域
+            setCellRange(range => (e.shiftKey && (range || focusedCell)
+              ? { anchor: range?.anchor ?? { rowKey: focusedCell?.rowKey ?? rowKey, columnKey: focusedCell?.columnKey ?? columnKey }, extent: cell }
+              : { anchor: cell, extent: cell }));
+          }
+          : void 0}
+        onMouseEnter={rangeSelection
+          ? () => {
+            if (rangeDraggingRef.current) {
+              window.getSelection()?.removeAllRanges();
+              setCellRange(range => (range ? { ...range, extent: { rowKey, columnKey } } : range));
+            }
+          }
+          : void 0}
+      >
+        { render(value, record, index) }
+      </FocusCell>
+    );
+  };
+
+  /**
+   * 生成表头，存在表头说明时附加提示图标
+   * @param title 表头
+   * @param description 表头说明
+   * @returns 表头
+   */
+  const titleGenerator = (title: string, description?: string): TableColumn['title'] => {
+    if (!description) {
+      return title;
+    }
+    return (
+      <div>
+        <span style={{ marginRight: '6px' }}>{ title }</span>
+        <Popover placement="top" title="" content={<RichText html={description} />}>
+          <QuestionCircleOutlined />
+        </Popover>
+      </div>
+    );
+  };
+
+  /**
+   * 生成表头单元格拖拽调整列顺序参数
+   * @param key 列 key
+   * @returns 表头单元格参数
+   */
+  const reorderHeaderCellProps = (key: string): HeaderCellProps => {
+    if (!props.schema.columnReorderable) {
+      return {};
+    }
+    return {
+      columnKey: key,
+      reorderable: true,
+      onColumnMove: (sourceKey, targetKey) => {
+        const order = moveColumn(orderedColumns, sourceKey, targetKey);
+        if (order) {
+          setTableState({ columnOrder: order });
+          props.onColumnOrderChange?.(order, tableInfo);
+        }
+      },
+    };
+  };
+
   /**
    * 根据列 Schema，生成表格列配置
    * @param schemaColumn Schema Column
    * @returns 表格列配置
    */
   const columnGenerator = (schemaColumn: DripTableBuiltInColumnSchema | NonNullable<ExtraOptions['CustomColumnSchema']>): TableColumn => {
-    let width = String(schemaColumn.width).trim();
+    let width = String(tableState.columnWidths[schemaColumn.key] ?? schemaColumn.width).trim();
     if ((/^[0-9]+$/uig).test(width)) {
       width += 'px';
     }
@@ -492,75 +1093,541 @@ const DripTable = <
         [styles[`drip-table-vertical-${schemaColumn.verticalAlign}`]]: schemaColumn.verticalAlign,
       }),
       align: schemaColumn.align,
-      title: schemaColumn.title,
+      title: titleGenerator(schemaColumn.title, schemaColumn.description),
       dataIndex: schemaColumn.dataIndex,
       fixed: schemaColumn.fixed,
       filters: schemaColumn.filters,
       defaultFilteredValue: schemaColumn.defaultFilteredValue,
     };
-    if (schemaColumn.description) {
-      column.title = (
-        <div>
-          <span style={{ marginRight: '6px' }}>{ schemaColumn.title }</span>
-          <Popover placement="top" title="" content={<RichText html={schemaColumn.description} />}>
-            <QuestionCircleOutlined />
-          </Popover>
-        </div>
-      );
+    const filterKey = schemaColumn.sortable
+      ? schemaColumn.key
+      : [schemaColumn.dataIndex].flat().join('.');
+    if (filterKey in tableState.filters) {
+      column.filteredValue = (tableState.filters[filterKey] || null) as React.Key[] | null;
+    }
+    if (schemaColumn.sortable) {
+      column.key = schemaColumn.key;
+      column.sorter = true;
+      column.sortOrder = tableState.sorter?.key === schemaColumn.key
+        ? tableState.sorter.order
+        : null;
     }
     if (props.schema.ellipsis) {
       column.ellipsis = true;
     }
+    const resizable = schemaColumn.resizable ?? props.schema.resizable;
+    if (resizable || props.schema.columnReorderable) {
+      const headerCellProps: HeaderCellProps = {
+        ...reorderHeaderCellProps(schemaColumn.key),
+        resizable,
+        minWidth: schemaColumn.minWidth,
+        maxWidth: schemaColumn.maxWidth,
+        onResize: (w) => {
+          setTableState(state => ({ columnWidths: { ...state.columnWidths, [schemaColumn.key]: w } }));
+        },
+        onResizeEnd: (w) => {
+          props.onColumnWidthChange?.(schemaColumn.key, w, tableInfo);
+        },
+      };
+      column.onHeaderCell = () => headerCellProps;
+    }
     if (!column.render) {
-      column.render = renderGenerator(schemaColumn) as TableColumn['render'];
+      const render = editableRenderGenerator(schemaColumn, renderGenerator(schemaColumn));
+      column.render = (focusable ? focusRenderGenerator(schemaColumn.key, render) : render) as TableColumn['render'];
     }
     return column;
   };
 
+  /**
+   * 递归过滤用户隐藏的列与分组
+   * @param schemaColumns Schema Columns
+   * @returns 展示的列定义
+   */
+  const filterDisplayColumns = (
+    schemaColumns: DripTableSchema<NonNullable<ExtraOptions['CustomColumnSchema']>>['columns'],
+  ): DripTableSchema<NonNullable<ExtraOptions['CustomColumnSchema']>>['columns'] => schemaColumns
+    .filter(column => !column.hidable || tableState.displayColumnKeys.includes(column.key))
+    .map(column => (isDripTableColumnGroup(column) ? { ...column, children: filterDisplayColumns(column.children) } : column));
+
+  const columnOrder = props.columnOrder || tableState.columnOrder;
+  const orderedColumns = React.useMemo(
+    () => sortColumns(props.schema.columns, columnOrder),
+    [props.schema.columns, columnOrder],
+  );
+
+  const displayColumns = React.useMemo(
+    () => filterDisplayColumns(orderedColumns),
+    [orderedColumns, tableState.displayColumnKeys],
+  );
+
+  /**
+   * 根据列分组 Schema，递归生成多级表头列配置，不含任何子列的分组不展示
+   * @param schemaColumns Schema Columns
+   * @param inheritFixed 父级分组固定设置
+   * @returns 表格列配置
+   */
+  const columnsGenerator = (
+    schemaColumns: DripTableSchema<NonNullable<ExtraOptions['CustomColumnSchema']>>['columns'],
+    inheritFixed?: TableColumn['fixed'],
+  ): TableColumn[] => schemaColumns
+    .map((schemaColumn): TableColumn | null => {
+      if (isDripTableColumnGroup(schemaColumn)) {
+        const fixed = schemaColumn.fixed ?? inheritFixed;
+        const children = columnsGenerator(schemaColumn.children, fixed);
+        if (children.length === 0) {
+          return null;
+        }
+        return {
+          key: schemaColumn.key,
+          title: titleGenerator(schemaColumn.title, schemaColumn.description),
+          align: schemaColumn.align,
+          fixed,
+          onHeaderCell: props.schema.columnReorderable
+            ? () => reorderHeaderCellProps(schemaColumn.key)
+            : void 0,
+          children,
+        };
+      }
+      return columnGenerator(
+        inheritFixed === void 0 || schemaColumn.fixed !== void 0
+          ? schemaColumn
+          : { ...schemaColumn, fixed: inheritFixed },
+      );
+    })
+    .filter((column): column is TableColumn => column !== null);
+
+  /**
+   * 根据汇总 Schema，生成汇总行
+   * @param pageData 表格当前页渲染的数据
+   * @returns 汇总行
+   */
+  const summaryGenerator = (pageData: readonly RecordType[]) => {
+    const summary = props.schema.summary;
+    if (!summary) {
+      return null;
+    }
+    const columns = flattenColumns(displayColumns);
+    // 选择列、展开列、拖拽手柄列占位
+    // 树形数据的展开按钮位于首列内，仅展开行、子表占用单独的展开列
+    const offset = (tableProps.rowSelection ? 1 : 0) + (tableProps.expandable?.expandedRowRender ? 1 : 0) + (rowDraggable ? 1 : 0);
+    return (
+      <Table.Summary fixed={summary.fixed}>
+        {
+          summary.rows.map((row, rowIndex) => (
+            <Table.Summary.Row key={rowIndex}>
+              {
+                Array(offset).fill(0).map((_, i) => <Table.Summary.Cell key={`offset-${i}`} index={i} />)
+              }
+              {
+                columns.map((column, columnIndex) => {
+                  const config = row.columns[column.key];
+                  if (!config) {
+                    return <Table.Summary.Cell key={column.key} index={offset + columnIndex} />;
+                  }
+                  const text = summarize(row.scope === 'all' ? processedData.allDataSource : [...pageData], column, config, props.aggregators);
+                  const textOptions = column.component === 'text' ? (column as DTCTextColumnSchema).options : void 0;
+                  return (
+                    <Table.Summary.Cell key={column.key} index={offset + columnIndex} align={column.align}>
+                      <DTCText
+                        driver={props.driver}
+                        schema={{
+                          key: column.key,
+                          title: column.title,
+                          dataIndex: 'value',
+                          component: 'text',
+                          options: {
+                            mode: 'single',
+                            prefix: config.prefix ?? textOptions?.prefix,
+                            suffix: config.suffix ?? textOptions?.suffix,
+                          },
+                        }}
+                        data={{ value: text }}
+                        value={text}
+                        ext={props.ext}
+                        fireEvent={() => void 0}
+                      />
+                    </Table.Summary.Cell>
+                  );
+                })
+              }
+            </Table.Summary.Row>
+          ))
+        }
+      </Table.Summary>
+    );
+  };
+
+  /**
+   * 数据源预处理：补全行主键、前端排序，前端数据模式下依次进行过滤、搜索、排序、分页
+   */
+  const processedData = React.useMemo(
+    () => {
+      const rowKey = props.schema.rowKey ?? 'key';
+      const dataSource = props.dataSource.map((item, index) => ({
+        ...item,
+        [rowKey]: typeof item[rowKey] === 'undefined' ? index : item[rowKey],
+      }));
+      const current = props.currentPage || tableState.pagination.current;
+      if (props.schema.dataMode === 'client' && !props.fetcher) {
+        return processDataSource(dataSource, {
+          columns: leafColumns,
+          filters: tableState.filters,
+          search: tableState.search,
+          sorter: tableState.sorter,
+          pagination: paginationMode === 'page'
+            ? { current, pageSize: tableState.pagination.pageSize }
+            : false,
+          predicates: props.dataPredicates,
+        });
+      }
+      const sorter = tableState.sorter;
+      const sortColumn = sorter
+        ? leafColumns.find(c => c.key === sorter.key && c.sortable)
+        : void 0;
+      const sortedDataSource = sorter && sortColumn && sortColumn.sorter !== 'server' && !props.fetcher
+        ? sortDataSource(dataSource, sortColumn, sorter.order)
+        : dataSource;
+      return {
+        dataSource: sortedDataSource,
+        allDataSource: sortedDataSource,
+        total: props.total === void 0 ? props.dataSource.length : props.total,
+        current,
+      };
+    },
+    [
+      props.dataSource,
+      props.schema.rowKey,
+      leafColumns,
+      props.schema.dataMode,
+      props.schema.pagination,
+      props.dataPredicates,
+      props.fetcher,
+      props.total,
+      props.currentPage,
+      tableState.pagination,
+      tableState.filters,
+      tableState.search,
+      tableState.sorter,
+    ],
+  );
+
+  /**
+   * 树形数据：合并懒加载的子节点
+   */
+  const treeDataSource = React.useMemo(
+    () => (props.schema.tree
+      ? buildTreeData(processedData.dataSource, props.schema.tree, props.schema.rowKey ?? 'key', tableState.loadedChildren)
+      : processedData.dataSource),
+    [processedData.dataSource, props.schema.tree, props.schema.rowKey, tableState.loadedChildren],
+  );
+
+  // 上次处理时树形数据中的所有行主键，为 null 时重新应用默认展开行
+  const treeRowKeysRef = useRef<Set<React.Key> | null>(null);
+
+  // 树形数据结构设置变化时清空懒加载的子节点，并重新应用默认展开行
+  React.useEffect(() => {
+    treeRowKeysRef.current = null;
+    setTableState({ loadedChildren: {} });
+  }, [!props.schema.tree, props.schema.tree?.childrenKey, props.schema.tree?.lazy, props.schema.tree?.hasChildrenKey]);
+
+  // 数据变化时移除已不存在的展开行，新出现的行按默认展开设置展开
+  React.useEffect(() => {
+    const tree = props.schema.tree;
+    if (!tree) {
+      return;
+    }
+    const rowKey = props.schema.rowKey ?? 'key';
+    const rowKeys = new Set(getTreeRowKeys(treeDataSource, tree, rowKey));
+    const prevRowKeys = treeRowKeysRef.current;
+    const defaultKeys = (props.defaultExpandAllRows
+      ? getExpandableTreeRowKeys(treeDataSource, tree, rowKey)
+      : props.defaultExpandedRowKeys || []
+    ).filter(key => rowKeys.has(key) && !prevRowKeys?.has(key));
+    treeRowKeysRef.current = rowKeys;
+    setTableState((state) => {
+      const keys = prevRowKeys ? state.expandedRowKeys.filter(key => rowKeys.has(key)) : [];
+      return { expandedRowKeys: [...keys, ...defaultKeys.filter(key => !keys.includes(key))] };
+    });
+  }, [treeDataSource]);
+
+  const loadingTreeRowKeysRef = useRef(new Set<React.Key>());
+
+  /**
+   * 展开、收起树形数据行，懒加载模式下展开时加载子节点
+   * @param expanded 是否展开
+   * @param record 行数据
+   */
+  const onTreeExpand = async (expanded: boolean, record: RecordType) => {
+    const tree = props.schema.tree;
+    const rowKey = props.schema.rowKey ?? 'key';
+    const key = record[rowKey] as React.Key;
+    setTableState(state => ({
+      expandedRowKeys: expanded
+        ? [...state.expandedRowKeys, key]
+        : state.expandedRowKeys.filter(k => k !== key),
+    }));
+    if (!expanded || !tree || !props.onLoadChildren || loadingTreeRowKeysRef.current.has(key) || !shouldLoadTreeChildren(record, tree, rowKey, tableState.loadedChildren)) {
+      return;
+    }
+    loadingTreeRowKeysRef.current.add(key);
+    try {
+      const children = await props.onLoadChildren(record, { ...tableInfo, record });
+      setTableState(state => ({ loadedChildren: { ...state.loadedChildren, [String(key)]: children } }));
+    } catch (error) {
+      setTableState(state => ({ expandedRowKeys: state.expandedRowKeys.filter(k => k !== key) }));
+      props.onLoadChildrenError?.(error, record, tableInfo);
+    } finally {
+      loadingTreeRowKeysRef.current.delete(key);
+    }
+  };
+
+  /**
+   * 键盘导航与区域选择范围：当前页渲染的数据（包括树形数据展开的子节点）与展示的叶子列
+   */
+  const getNavigationGrid = () => {
+    const rows = getPageData(treeDataSource, paginationMode === 'page'
+      ? { current: processedData.current, pageSize: tableState.pagination.pageSize, total: processedData.total }
+      : false);
+    return {
+      // 树形数据包含展开的子节点
+      rows: props.schema.tree
+        ? flattenVisibleTreeRows(rows, props.schema.tree, props.schema.rowKey ?? 'key', tableState.expandedRowKeys)
+        : rows,
+      columns: flattenColumns(displayColumns),
+    };
+  };
+
+  /**
+   * 获取单元格在当前页中的位置
+   * @param grid 键盘导航范围
+   * @param cell 单元格
+   * @returns 单元格位置，不在当前页时返回 null
+   */
+  const locateCell = (grid: ReturnType<typeof getNavigationGrid>, cell: DripTableCellKey | null): DripTableCellPosition | null => {
+    if (!cell) {
+      return null;
+    }
+    const rowIndex = grid.rows.findIndex(record => rowKeyOf(record) === cell.rowKey);
+    const columnIndex = grid.columns.findIndex(column => column.key === cell.columnKey);
+    return rowIndex === -1 || columnIndex === -1 ? null : { rowIndex, columnIndex };
+  };
+
+  /**
+   * 单元格选择区域，仅包含一个单元格时视为未选择区域
+   */
+  const selectedRange = React.useMemo(
+    () => {
+      if (!cellRange) {
+        return null;
+      }
+      const grid = getNavigationGrid();
+      const anchor = locateCell(grid, cellRange.anchor);
+      const extent = locateCell(grid, cellRange.extent);
+      if (!anchor || !extent || (anchor.rowIndex === extent.rowIndex && anchor.columnIndex === extent.columnIndex)) {
+        return null;
+      }
+      const top = Math.min(anchor.rowIndex, extent.rowIndex);
+      const left = Math.min(anchor.columnIndex, extent.columnIndex);
+      const rows = grid.rows.slice(top, Math.max(anchor.rowIndex, extent.rowIndex) + 1);
+      const columns = grid.columns.slice(left, Math.max(anchor.columnIndex, extent.columnIndex) + 1);
+      return {
+        top,
+        left,
+        rows,
+        columns,
+        rowKeys: new Set(rows.map(rowKeyOf)),
+        columnKeys: new Set(columns.map(column => column.key)),
+      };
+    },
+    [cellRange, processedData, displayColumns, props.schema.pagination, tableState.pagination.pageSize],
+  );
+
+  const rowDraggable = !!props.schema.rowDraggable && !props.schema.virtual;
+  // 拖拽数据类型包含表格实例标识，禁止跨表格（如父子表之间）拖拽
+  const rowDragDataType = React.useMemo(() => `application/x-drip-table-row-${Math.random().toString(36).slice(2)}`, []);
+  const [dragOverRowKey, setDragOverRowKey] = React.useState<string | null>(null);
+
+  /**
+   * 将行移动到目标行的位置，按新顺序回写排序值并通知数据源变化
+   * @param sourceKey 移动行主键
+   * @param targetKey 目标行主键
+   */
+  const moveRow = (sourceKey: string, targetKey: string) => {
+    const rowKey = props.schema.rowKey ?? 'key';
+    // 拖拽发生在排序、过滤、分页后的展示数据中，按展示顺序判断移动到目标行之前还是之后
+    const viewKeys = processedData.dataSource.map(item => String(item[rowKey]));
+    const viewFrom = viewKeys.indexOf(sourceKey);
+    const viewTo = viewKeys.indexOf(targetKey);
+    if (viewFrom === -1 || viewTo === -1 || viewFrom === viewTo) {
+      return;
+    }
+    // 通过行主键映射回传入数据源中的位置
+    const indexOf = (key: string) => props.dataSource.findIndex((item, index) => String(typeof item[rowKey] === 'undefined' ? index : item[rowKey]) === key);
+    const from = indexOf(sourceKey);
+    const target = indexOf(targetKey);
+    const to = (target > from ? target - 1 : target) + (viewFrom < viewTo ? 1 : 0);
+    if (from === -1 || target === -1 || from === to) {
+      return;
+    }
+    const ds = [...props.dataSource];
+    const [record] = ds.splice(from, 1);
+    ds.splice(to, 0, record);
+    const sortKey = typeof props.schema.rowDraggable === 'object' ? props.schema.rowDraggable.sortKey : void 0;
+    const dataSource = sortKey
+      ? ds.map((item, index) => {
+        const rec = { ...item };
+        setValue(rec, sortKey, index + 1);
+        return rec;
+      })
+      : ds;
+    props.onRowOrderChange?.(dataSource, from, to, tableInfo);
+    props.onDataSourceChange?.(dataSource, tableInfo);
+  };
+
+  /**
+   * 拖拽手柄列
+   */
+  const rowDragHandleColumn: TableColumn = {
+    key: '__DRIP_TABLE_ROW_DRAG_HANDLE__',
+    width: 48,
+    align: 'center',
+    fixed: leafColumns.some(c => c.fixed === 'left' || c.fixed === true) ? 'left' : void 0,
+    render: (_, record) => (
+      <span
+        className={styles['drip-table-row-drag-handle']}
+        draggable
+        onDragStart={(e) => {
+          const $row = e.currentTarget.closest('tr');
+          if ($row) {
+            e.dataTransfer.setDragImage($row, 0, 0);
+          }
+          e.dataTransfer.setData(rowDragDataType, String(record[props.schema.rowKey ?? 'key']));
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragEnd={() => { setDragOverRowKey(null); }}
+      >
+        <MenuOutlined />
+      </span>
+    ),
+  };
+
+  const rowSelection = normalizeRowSelection(props.schema.rowSelection);
+  const selectAllPages = canSelectAllPages(rowSelection) && tableState.selectAllPages;
+
+  /**
+   * 判断行是否可选择
+   * @param record 行数据
+   * @returns 是否可选择
+   */
+  const isRowSelectable = (record: RecordType) => !isRowSelectionDisabled(rowSelection, record, props.schema.expressionMode);
+
+  /**
+   * 获取选择栏展示的选中行主键，跨页全选时为当前页未被排除的可选择行
+   * @returns 选中行主键
+   */
+  const getSelectedRowKeys = (): React.Key[] => {
+    if (selectAllPages) {
+      const rowKey = props.schema.rowKey ?? 'key';
+      return getNavigationGrid().rows
+        .filter(isRowSelectable)
+        .map(record => record[rowKey] as React.Key)
+        .filter(key => !tableState.excludedRowKeys.includes(key));
+    }
+    return props.selectedRowKeys || tableState.selectedRowKeys;
+  };
+
+  /**
+   * 选择行变化，跨页全选时根据当前页的选中情况更新排除列表
+   * @param selectedKeys 选中行主键
+   * @param selectedRows 选中行数据
+   */
+  const onSelectionChange = (selectedKeys: React.Key[], selectedRows: RecordType[]) => {
+    if (selectAllPages) {
+      const rowKey = props.schema.rowKey ?? 'key';
+      const unselectedKeys = getNavigationGrid().rows
+        .filter(isRowSelectable)
+        .map(record => record[rowKey] as React.Key)
+        .filter(key => !selectedKeys.includes(key));
+      const excludedRowKeys = [
+        ...tableState.excludedRowKeys.filter(key => !selectedKeys.includes(key) && !unselectedKeys.includes(key)),
+        ...unselectedKeys,
+      ];
+      setTableState({ excludedRowKeys });
+      props.onSelectAllPagesChange?.(true, excludedRowKeys, tableInfo);
+      return;
+    }
+    setTableState({ selectedRowKeys: [...selectedKeys] });
+    // 保留其他页选中行时，未加载过的行数据为空
+    props.onSelectionChange?.(selectedKeys, selectedRows.filter(Boolean), tableInfo);
+  };
+
+  /**
+   * 切换行选中状态
+   * @param record 行数据
+   */
+  const toggleRowSelection = (record: RecordType) => {
+    if (!isRowSelectable(record)) {
+      return;
+    }
+    const rowKey = props.schema.rowKey ?? 'key';
+    const key = record[rowKey] as React.Key;
+    const selectedRowKeys = getSelectedRowKeys();
+    let keys: React.Key[];
+    if (rowSelection?.type === 'radio') {
+      keys = [key];
+    } else {
+      keys = selectedRowKeys.includes(key)
+        ? selectedRowKeys.filter(k => k !== key)
+        : [...selectedRowKeys, key];
+    }
+    onSelectionChange(keys, processedData.allDataSource.filter(item => keys.includes(item[rowKey] as React.Key)));
+  };
+
+  // 分页器总数展示
+  const paginationShowTotal = props.schema.pagination ? props.schema.pagination.showTotal : void 0;
+  const showTotal = React.useMemo((): DripTablePagination['showTotal'] => {
+    if (typeof paginationShowTotal === 'string') {
+      return (total, range) => paginationShowTotal
+        .replace('{{total}}', String(total))
+        .replace('{{range[0]}}', String(range?.[0] ?? ''))
+        .replace('{{range[1]}}', String(range?.[1] ?? ''));
+    }
+    if (paginationShowTotal) {
+      return (total, range) => (range ? `${range[0]}-${range[1]} of ${total}` : `${total} items`);
+    }
+    return void 0;
+  }, [paginationShowTotal]);
+
   const tableProps: DripTableDriverTableProps<RecordType> = {
     className: props.schema.innerClassName,
     style: props.schema.innerStyle,
     rowKey: props.schema.rowKey ?? 'key',
     columns: React.useMemo(
-      () => props.schema.columns
-        .filter(column => !column.hidable || tableState.displayColumnKeys.includes(column.key))
-        .map(columnGenerator),
-      [props.schema.columns, tableState.displayColumnKeys],
+      () => (rowDraggable ? [rowDragHandleColumn] : []).concat(columnsGenerator(displayColumns)),
+      [
+        displayColumns,
+        tableState.sorter,
+        tableState.filters,
+        tableState.columnWidths,
+        tableState.rowDrafts,
+        rowErrors,
+        rowDraggable,
+        focusable,
+        focusedCell,
+        selectedRange,
+        editRequest,
+        props.dataSource,
+      ],
     ),
-    dataSource: React.useMemo(
-      () => props.dataSource.map((item, index) => {
-        const rowKey = props.schema.rowKey ?? 'key';
-        return {
-          ...item,
-          [rowKey]: typeof item[rowKey] === 'undefined' ? index : item[rowKey],
-        };
-      }),
-      [props.dataSource, props.schema.rowKey],
-    ),
-    pagination: props.schema.pagination === false
+    dataSource: treeDataSource,
+    pagination: props.schema.pagination === false || paginationMode !== 'page'
       ? false as const
       : {
         size: props.schema.pagination?.size === void 0 ? 'small' : props.schema.pagination.size,
         pageSize: tableState.pagination.pageSize,
-        total: props.total === void 0 ? props.dataSource.length : props.total,
-        showTotal: React.useMemo(() => {
-          if (props.schema.pagination) {
-            if (typeof props.schema.pagination?.showTotal === 'string') {
-              return (total, range) => (props.schema.pagination
-                ? String(props.schema.pagination.showTotal ?? '')
-                  .replace('{{total}}', String(total))
-                  .replace('{{range[0]}}', String(range?.[0] ?? ''))
-                  .replace('{{range[1]}}', String(range?.[1] ?? ''))
-                : '');
-            }
-            if (props.schema.pagination?.showTotal) {
-              return (total, range) => (range ? `${range[0]}-${range[1]} of ${total}` : `${total} items`);
-            }
-          }
-
-          return void 0;
-        }, [props.schema.pagination?.showTotal]),
-        current: props.currentPage || tableState.pagination.current,
+        total: processedData.total,
+        showTotal,
+        current: processedData.current,
         position: [props.schema.pagination?.position || 'bottomRight'],
         showLessItems: props.schema.pagination?.showLessItems,
         showQuickJumper: props.schema.pagination?.showQuickJumper,
@@ -577,11 +1644,51 @@ const DripTable = <
       : false,
     title: props.title,
     footer: props.footer,
+    onRow: rowDraggable
+      ? (record) => {
+        const key = String(record[props.schema.rowKey ?? 'key']);
+        return {
+          className: dragOverRowKey === key ? styles['drip-table-row-drag-over'] : void 0,
+          onDragOver: (e) => {
+            if (e.dataTransfer.types.includes(rowDragDataType)) {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              setDragOverRowKey(key);
+            }
+          },
+          onDrop: (e) => {
+            const sourceKey = e.dataTransfer.getData(rowDragDataType);
+            setDragOverRowKey(null);
+            if (sourceKey) {
+              e.preventDefault();
+              moveRow(sourceKey, key);
+            }
+          },
+        };
+      }
+      : void 0,
+    components: {
+      header: {
+        cell: HeaderCell,
+      },
+    },
+    summary: props.schema.summary && props.schema.summary.rows.length > 0
+      ? summaryGenerator
+      : void 0,
     expandable: React.useMemo(
       () => {
         const subtable = props.schema.subtable;
         const expandedRowRender = props.expandedRowRender;
         const rowExpandable = props.rowExpandable;
+        // 树形数据与行展开互斥，树形数据优先
+        if (props.schema.tree) {
+          return {
+            childrenColumnName: props.schema.tree.childrenKey ?? 'children',
+            indentSize: props.schema.tree.indentSize ?? 15,
+            expandedRowKeys: tableState.expandedRowKeys,
+            onExpand: (expanded, record) => { onTreeExpand(expanded, record); },
+          };
+        }
         if (subtable || expandedRowRender) {
           return {
             expandedRowRender: (record, index) => {
@@ -612,6 +1719,8 @@ const DripTable = <
                     {...subtableProps}
                     schema={subtableSchema}
                     dataSource={record[subtable.dataSourceKey] as RecordType[]}
+                    fetcher={void 0}
+                    persistence={void 0}
                     title={
                         props.subtableTitle
                           ? subtableData => props.subtableTitle?.(
@@ -678,24 +1787,37 @@ const DripTable = <
         }
         return void 0;
       },
-      [props.schema.subtable, props.expandedRowRender, props.rowExpandable],
+      [props.schema.subtable, props.schema.tree, props.expandedRowRender, props.rowExpandable, tableState.expandedRowKeys, tableState.loadedChildren],
     ),
-    rowSelection: props.schema.rowSelection && !props.schema.virtual
+    rowSelection: rowSelection
       ? {
-        selectedRowKeys: props.selectedRowKeys || tableState.selectedRowKeys,
-        onChange: (selectedKeys, selectedRows) => {
-          setTableState({ selectedRowKeys: [...selectedKeys] });
-          props.onSelectionChange?.(selectedKeys, selectedRows, tableInfo);
-        },
+        type: rowSelection.type,
+        selectedRowKeys: getSelectedRowKeys(),
+        // 翻页（包括远程数据源翻页）后保留其他页的选中行
+        preserveSelectedRowKeys: true,
+        getCheckboxProps: rowSelection.disabled
+          ? record => ({ disabled: !isRowSelectable(record) })
+          : void 0,
+        checkStrictly: props.schema.tree ? !props.schema.tree.cascadeSelection : void 0,
+        onChange: onSelectionChange,
       }
       : void 0,
-    onChange: (pagination, filters) => {
+    onChange: (pagination, filters, sorterResult) => {
       const current = pagination.current ?? tableState.pagination.current;
       const pageSize = pagination.pageSize ?? tableState.pagination.pageSize;
-      setTableState({ pagination: { ...tableState.pagination, current, pageSize }, filters });
+      const sorter = parseSorterResult(sorterResult);
+      const sorterChanged = sorter?.key !== tableState.sorter?.key || sorter?.order !== tableState.sorter?.order;
+      setTableState({ pagination: { ...tableState.pagination, current, pageSize }, filters, sorter });
+      // 游标与过滤、排序条件绑定，条件变化后回到首页
+      if (paginationMode === 'cursor' && (sorterChanged || JSON.stringify(filters) !== JSON.stringify(tableState.filters))) {
+        changeCursor(null, [], pageSize);
+      }
       props.onFilterChange?.(filters, tableInfo);
       props.onPageChange?.(current, pageSize, tableInfo);
-      props.onChange?.({ pagination, filters }, tableInfo);
+      if (sorterChanged) {
+        props.onSortChange?.(sorter, tableInfo);
+      }
+      props.onChange?.({ pagination, filters, sorter }, tableInfo);
     },
   };
 
@@ -744,12 +1866,367 @@ const DripTable = <
     [props.schema.footer],
   );
 
+  /**
+   * 判断元素是否为当前表格（而非子表格）的焦点单元格
+   * @param target 元素
+   * @returns 是否为当前表格的焦点单元格
+   */
+  const isOwnFocusCell = (target: EventTarget | null): target is HTMLElement => !!target
+    && isFocusCellElement(target)
+    && (target as HTMLElement).closest(`.${styles['drip-table-focus-scope']}`) === rootRef.current;
+
+  /**
+   * 键盘导航：在焦点单元格上移动焦点、按 Enter 进入编辑、按空格切换行选中；区域选择：Shift + 方向键扩展选择区域
+   * @param e 键盘事件
+   * @returns 是否已处理
+   */
+  const onNavigationKeyDown = (e: React.KeyboardEvent<HTMLDivElement>): boolean => {
+    if (!focusable || !focusedCell || e.altKey || !isOwnFocusCell(e.target)) {
+      return false;
+    }
+    const grid = getNavigationGrid();
+    const position = locateCell(grid, focusedCell);
+    if (!position) {
+      return false;
+    }
+    if (rangeSelection && e.shiftKey && e.key.startsWith('Arrow')) {
+      const anchor = cellRange?.anchor ?? focusedCell;
+      const next = moveCellPosition(locateCell(grid, cellRange?.extent ?? null) ?? position, e, grid.rows.length, grid.columns.length);
+      if (next) {
+        setCellRange({
+          anchor: { rowKey: anchor.rowKey, columnKey: anchor.columnKey },
+          extent: { rowKey: rowKeyOf(grid.rows[next.rowIndex]), columnKey: grid.columns[next.columnIndex].key },
+        });
+      }
+      return true;
+    }
+    if (e.key === 'Escape' && selectedRange) {
+      setCellRange(null);
+      return true;
+    }
+    if (!keyboardNavigation) {
+      return false;
+    }
+    if (e.key === 'Enter') {
+      const column = grid.columns[position.columnIndex];
+      if (!column.editor || !(column.editable ?? props.schema.editable) || focusedCell.rowKey in tableState.rowDrafts) {
+        return false;
+      }
+      setEditRequest({ rowKey: focusedCell.rowKey, columnKey: column.key });
+      return true;
+    }
+    if (e.key === ' ') {
+      if (!tableProps.rowSelection) {
+        return false;
+      }
+      toggleRowSelection(grid.rows[position.rowIndex]);
+      return true;
+    }
+    const next = moveCellPosition(position, e, grid.rows.length, grid.columns.length);
+    if (!next) {
+      return false;
+    }
+    setCellRange(null);
+    focusCell(rowKeyOf(grid.rows[next.rowIndex]), grid.columns[next.columnIndex].key);
+    return true;
+  };
+
+  /**
+   * 复制选择区域（未选择区域时为焦点单元格）内各单元格的展示文本，生成 TSV
+   * @param e 剪贴板事件
+   */
+  const onRootCopy: React.ClipboardEventHandler<HTMLDivElement> = (e) => {
+    // 单元格内选中文本时保留浏览器原生复制
+    if (!rangeSelection || !isOwnFocusCell(document.activeElement) || (!selectedRange && window.getSelection()?.type === 'Range')) {
+      return;
+    }
+    const grid = getNavigationGrid();
+    const position = locateCell(grid, focusedCell);
+    const range = selectedRange || (position && { rows: [grid.rows[position.rowIndex]], columns: [grid.columns[position.columnIndex]] });
+    if (!range) {
+      return;
+    }
+    const resolve = createComponentResolver(props.components);
+    e.clipboardData.setData('text/plain', toTSV(range.rows.map(record => range.columns.map(column => cellToText(column, record, resolve, props.schema.expressionMode)))));
+    e.preventDefault();
+  };
+
+  /**
+   * 从焦点单元格（存在选择区域时为区域左上角）开始粘贴单元格文本，
+   * 按列编辑器类型转换并通过列校验后统一回写数据源，无法粘贴的单元格通过 onPasteError 通知
+   * @param cellTexts 单元格文本
+   */
+  const pasteCells = async (cellTexts: string[][]) => {
+    const grid = getNavigationGrid();
+    const start = selectedRange
+      ? { rowIndex: selectedRange.top, columnIndex: selectedRange.left }
+      : locateCell(grid, focusedCell);
+    if (!start) {
+      return;
+    }
+    const results = await Promise.all(cellTexts.flatMap((row, r) => row.map(async (text, c): Promise<DripTablePasteError<RecordType> | { rowIndex: number; record: RecordType; columnKey: string; text: string; dataIndex: string | string[]; value: unknown }> => {
+      const rowIndex = start.rowIndex + r;
+      const record = grid.rows[rowIndex] as RecordType | undefined;
+      const column = grid.columns[start.columnIndex + c];
+      if (!record || !column) {
+        return { rowIndex, columnKey: column?.key, record, text, reason: 'out-of-range', message: texts.pasteOutOfRange };
+      }
+      if (!column.editor || !(column.editable ?? props.schema.editable)) {
+        return { rowIndex, columnKey: column.key, record, text, reason: 'not-editable', message: texts.pasteNotEditable };
+      }
+      if (rowKeyOf(record) in tableState.rowDrafts) {
+        return { rowIndex, columnKey: column.key, record, text, reason: 'row-editing', message: texts.pasteRowEditing };
+      }
+      const parsed = parseCellText(text, column, texts);
+      if ('error' in parsed) {
+        return { rowIndex, columnKey: column.key, record, text, reason: 'parse', message: parsed.error };
+      }
+      const message = column.validation?.length ? await validateCellValue(column, record, parsed.value) : null;
+      if (message) {
+        return { rowIndex, columnKey: column.key, record, text, reason: 'validation', message };
+      }
+      return { rowIndex, record, columnKey: column.key, text, dataIndex: column.dataIndex, value: parsed.value };
+    })));
+
+    let ds: RecordType[] = [...props.dataSource];
+    const patches: DripTableEditPatch[] = [];
+    const errors: DripTablePasteError<RecordType>[] = [];
+    results.forEach((result) => {
+      if ('message' in result) {
+        errors.push(result);
+        return;
+      }
+      const current = findTreeRecord(ds, props.schema.tree, props.schema.rowKey ?? 'key', rowKeyOf(result.record), tableState.loadedChildren);
+      const updated = current ? updateRecord(ds, result.record, rec => assignValue(rec, result.dataIndex, result.value)) : null;
+      if (!current || !updated) {
+        errors.push({ rowIndex: result.rowIndex, columnKey: result.columnKey, record: result.record, text: result.text, reason: 'not-found', message: texts.pasteRowNotFound });
+        return;
+      }
+      const from = indexValue(current, result.dataIndex);
+      if (from === result.value) {
+        return;
+      }
+      ds = updated;
+      const rowKey = rowKeyOf(result.record);
+      const patch = patches.find(p => p.rowKey === rowKey);
+      const change = { dataIndex: result.dataIndex, from, to: result.value };
+      if (patch) {
+        patch.changes.push(change);
+      } else {
+        patches.push({ rowKey, changes: [change] });
+      }
+    });
+    if (patches.length > 0) {
+      recordEditPatches(patches);
+      props.onDataSourceChange?.(ds, tableInfo);
+    }
+    if (errors.length > 0) {
+      props.onPasteError?.(errors, tableInfo);
+    }
+    // 选中粘贴区域
+    const bottom = Math.min(start.rowIndex + cellTexts.length, grid.rows.length) - 1;
+    const right = Math.min(start.columnIndex + Math.max(...cellTexts.map(row => row.length)), grid.columns.length) - 1;
+    setCellRange({
+      anchor: { rowKey: rowKeyOf(grid.rows[start.rowIndex]), columnKey: grid.columns[start.columnIndex].key },
+      extent: { rowKey: rowKeyOf(grid.rows[bottom]), columnKey: grid.columns[right].key },
+    });
+  };
+
+  /**
+   * 粘贴 TSV 文本到焦点单元格开始的区域
+   * @param e 剪贴板事件
+   */
+  const onRootPaste: React.ClipboardEventHandler<HTMLDivElement> = (e) => {
+    if (!rangeSelection || !isOwnFocusCell(document.activeElement)) {
+      return;
+    }
+    const text = e.clipboardData.getData('text/plain');
+    if (!text) {
+      return;
+    }
+    e.preventDefault();
+    pasteCells(parseTSV(text));
+  };
+
+  /**
+   * 虚拟滚动模式下键盘导航需滚动到的焦点单元格
+   */
+  const scrollToCell = (() => {
+    if (!props.schema.virtual || !focusedCell?.token) {
+      return void 0;
+    }
+    const position = locateCell(getNavigationGrid(), focusedCell);
+    return position ? { ...position, token: focusedCell.token } : void 0;
+  })();
+
+  const cursorPrev = props.cursorPagination?.prevCursor ?? tableState.cursorPagination.prevCursor;
+  const cursorNext = props.cursorPagination?.nextCursor ?? tableState.cursorPagination.nextCursor;
+
+  /**
+   * 切换游标分页的当前页，新页面的上一页、下一页游标由请求结果提供
+   * @param cursor 目标页游标
+   * @param history 目标页之前已访问页面的游标
+   * @param pageSize 每页条数
+   */
+  const changeCursor = (cursor: string | null, history: (string | null)[], pageSize: number) => {
+    setTableState(state => ({
+      pagination: { ...state.pagination, pageSize },
+      cursorPagination: { ...state.cursorPagination, cursor, history, prevCursor: null, nextCursor: null },
+    }));
+    props.onCursorChange?.(cursor, pageSize, tableInfo);
+  };
+
+  const [loadMoreStatus, setLoadMoreStatus] = useState({ loading: false, finished: false, failed: false });
+  const [loadMoreSentinelVisible, setLoadMoreSentinelVisible] = React.useState<boolean>(false);
+  const loadingMoreRef = useRef(false);
+  const loadedCountRef = useRef(props.dataSource.length);
+  const scrollContainerRef = useRef<HTMLElement | null>(null);
+  // 底部加载行节点，使用回调 ref 以便加载行重新挂载（如数据加载失败后重新加载）时重新监听
+  const [loadMoreSentinel, setLoadMoreSentinel] = React.useState<HTMLDivElement | null>(null);
+  const loadMoreTotal = props.total ?? (props.schema.pagination ? props.schema.pagination.total : void 0);
+  const hasMoreData = !loadMoreStatus.finished && (loadMoreTotal === void 0 || props.dataSource.length < loadMoreTotal);
+  const loadMoreThreshold = (props.schema.pagination ? props.schema.pagination.threshold : void 0) ?? 100;
+  // 虚拟滚动或固定表头时在表格内部滚动，否则随页面滚动
+  const innerScrollable = !!props.schema.virtual || props.schema.scroll?.y !== void 0;
+
+  /**
+   * 加载更多数据，加载过程中不重复触发
+   */
+  const loadMoreData = async () => {
+    if (!props.onLoadMore || loadingMoreRef.current || !hasMoreData) {
+      return;
+    }
+    loadingMoreRef.current = true;
+    setLoadMoreStatus({ loading: true, finished: false, failed: false });
+    try {
+      const result = await props.onLoadMore(tableInfo);
+      setLoadMoreStatus({ loading: false, finished: result === false, failed: false });
+    } catch {
+      setLoadMoreStatus({ loading: false, finished: false, failed: true });
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  };
+
+  const isNearBottom = ($el: HTMLElement) => $el.scrollHeight - $el.scrollTop - $el.clientHeight <= loadMoreThreshold;
+
+  /**
+   * 滚动加载：表格内部滚动容器接近底部时加载更多
+   * @param e 滚动事件
+   */
+  const onRootScroll: React.UIEventHandler<HTMLDivElement> = (e) => {
+    const target = e.target as HTMLElement;
+    // 忽略横向滚动容器以及子表格等嵌套表格的滚动
+    if (paginationMode !== 'infinite' || target.scrollHeight <= target.clientHeight || target.closest(`.${styles['drip-table-focus-scope']}`) !== rootRef.current) {
+      return;
+    }
+    scrollContainerRef.current = target;
+    if (isNearBottom(target) && !loadMoreStatus.failed) {
+      loadMoreData();
+    }
+  };
+
+  // 随页面滚动时通过底部加载行是否进入视口判断是否接近底部
+  React.useEffect(() => {
+    if (paginationMode !== 'infinite' || innerScrollable || !loadMoreSentinel || typeof IntersectionObserver === 'undefined') {
+      return void 0;
+    }
+    const observer = new IntersectionObserver(
+      ([entry]) => { setLoadMoreSentinelVisible(entry.isIntersecting); },
+      { rootMargin: `0px 0px ${loadMoreThreshold}px 0px` },
+    );
+    observer.observe(loadMoreSentinel);
+    return () => {
+      observer.disconnect();
+      setLoadMoreSentinelVisible(false);
+    };
+  }, [paginationMode, innerScrollable, loadMoreThreshold, loadMoreSentinel]);
+
+  // 数据源被重置（如重新搜索）后允许继续加载
+  React.useEffect(() => {
+    if (props.dataSource.length < loadedCountRef.current) {
+      setLoadMoreStatus(status => ({ ...status, finished: false, failed: false }));
+    }
+    loadedCountRef.current = props.dataSource.length;
+  }, [props.dataSource]);
+
+  // 加载完成后仍接近底部时继续加载，直至填满可视区域
+  React.useEffect(() => {
+    if (paginationMode !== 'infinite' || loadMoreStatus.loading || loadMoreStatus.failed) {
+      return;
+    }
+    const $container = scrollContainerRef.current;
+    if (innerScrollable ? $container && isNearBottom($container) : loadMoreSentinelVisible) {
+      loadMoreData();
+    }
+  }, [paginationMode, loadMoreSentinelVisible, props.dataSource, loadMoreStatus.loading, loadMoreStatus.failed]);
+
+  /**
+   * 渲染底部加载行：加载中、加载失败重试、加载更多按钮、没有更多数据
+   */
+  const renderLoadMore = () => {
+    if (loadMoreStatus.loading) {
+      return (
+        <React.Fragment>
+          <Spin size="small" />
+          <span className={styles['drip-table-load-more-text']}>{ texts.loadMoreLoading }</span>
+        </React.Fragment>
+      );
+    }
+    if (loadMoreStatus.failed) {
+      return <Button type="link" onClick={() => { loadMoreData(); }}>{ texts.loadMoreRetry }</Button>;
+    }
+    if (hasMoreData) {
+      return paginationMode === 'load-more'
+        ? <Button onClick={() => { loadMoreData(); }}>{ texts.loadMore }</Button>
+        : null;
+    }
+    return props.dataSource.length > 0 ? texts.loadMoreFinished : null;
+  };
+
+  /**
+   * 表格范围内的快捷键：键盘导航；Ctrl/Cmd + Z 撤销，Ctrl/Cmd + Y 或 Ctrl/Cmd + Shift + Z 重做
+   * @param e 键盘事件
+   */
+  const onRootKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (e) => {
+    if (onNavigationKeyDown(e)) {
+      e.preventDefault();
+      e.stopPropagation();
+      return;
+    }
+    if (!(e.ctrlKey || e.metaKey) || e.altKey) {
+      return;
+    }
+    // 输入框内保留浏览器原生撤销
+    const target = e.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+      return;
+    }
+    const key = e.key.toLowerCase();
+    if (key !== 'z' && key !== 'y') {
+      return;
+    }
+    // 子表格的快捷键不再冒泡到父表格
+    e.preventDefault();
+    e.stopPropagation();
+    if (key === 'z' && !e.shiftKey) {
+      tableState.undo();
+    } else {
+      tableState.redo();
+    }
+  };
+
   return (
     <ErrorBoundary driver={props.driver}>
       <div
-        className={classnames(props.className, props.schema.className)}
+        className={classnames(props.className, props.schema.className, styles['drip-table-focus-scope'])}
         style={Object.assign({}, props.style, props.schema.style)}
         ref={rootRef}
+        tabIndex={-1}
+        onKeyDown={onRootKeyDown}
+        onCopy={onRootCopy}
+        onPaste={onRootPaste}
+        onScrollCapture={onRootScroll}
       >
         {
           header
@@ -765,11 +2242,26 @@ const DripTable = <
             : null
         }
         {
-          props.schema.virtual
+          tableState.error
+            ? (
+              <Result
+                status="error"
+                title={texts.errorTitle}
+                subTitle={formatText(texts.errorSubTitle, { message: tableState.error.message })}
+                extra={<Button type="primary" onClick={() => { tableState.reload(); }}>{ texts.errorReload }</Button>}
+              />
+            )
+            : null
+        }
+        {
+          !tableState.error && props.schema.virtual
             ? (
               <VirtualTable
                 {...tableProps}
                 driver={props.driver}
+                scrollToCell={scrollToCell}
+                texts={texts}
+                estimatedRowHeight={typeof props.schema.virtual === 'object' ? props.schema.virtual.estimatedRowHeight : void 0}
                 scroll={{
                   ...props.schema.scroll,
                   x: props.schema.scroll?.x || '100vw',
@@ -777,7 +2269,50 @@ const DripTable = <
                 }}
               />
             )
-            : <Table {...tableProps} />
+            : null
+        }
+        {
+          !tableState.error && !props.schema.virtual
+            ? <Table {...tableProps} />
+            : null
+        }
+        {
+          !tableState.error && paginationMode === 'cursor' && props.schema.pagination
+            ? (
+              <CursorPager
+                driver={props.driver}
+                pageSize={tableState.pagination.pageSize}
+                hasPrev={tableState.cursorPagination.history.length > 0 || cursorPrev !== null}
+                hasNext={cursorNext !== null}
+                estimatedTotal={props.cursorPagination?.estimatedTotal ?? tableState.cursorPagination.estimatedTotal}
+                size={props.schema.pagination.size}
+                position={props.schema.pagination.position}
+                showSizeChanger={props.schema.pagination.showSizeChanger}
+                onPrev={() => {
+                  // 以已访问页面的游标栈为准返回上一页，仅在栈为空（如从中间页开始浏览）时使用上一页游标
+                  const history = tableState.cursorPagination.history;
+                  if (history.length > 0) {
+                    changeCursor(history[history.length - 1], history.slice(0, -1), tableState.pagination.pageSize);
+                  } else {
+                    changeCursor(cursorPrev, [], tableState.pagination.pageSize);
+                  }
+                }}
+                onNext={() => {
+                  changeCursor(cursorNext, [...tableState.cursorPagination.history, tableState.cursorPagination.cursor], tableState.pagination.pageSize);
+                }}
+                onPageSizeChange={(pageSize) => { changeCursor(null, [], pageSize); }}
+              />
+            )
+            : null
+        }
+        {
+          !tableState.error && (paginationMode === 'infinite' || paginationMode === 'load-more')
+            ? (
+              <div className={styles['drip-table-load-more']} ref={setLoadMoreSentinel}>
+                { renderLoadMore() }
+              </div>
+            )
+            : null
         }
         {
           footer
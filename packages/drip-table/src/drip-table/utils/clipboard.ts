@@ -0,0 +1,111 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableColumnSchema, type DripTableTexts } from '@/types';
+
+import { formatText } from './texts';
+
+/**
+ * 生成 TSV 文本，与 Excel 复制格式一致：含制表符、换行或引号的单元格使用引号包裹
+ * @param rows 单元格文本
+ * @returns TSV 文本
+ */
+export const toTSV = (rows: string[][]): string => rows
+  .map(row => row
+    .map(text => ((/[\t"\r\n]/u).test(text) ? `"${text.replace(/"/gu, '""')}"` : text))
+    .join('\t'))
+  .join('\r\n');
+
+/**
+ * 解析 TSV 文本，支持 Excel 复制的引号包裹单元格（可含换行），忽略末尾换行
+ * @param text TSV 文本
+ * @returns 单元格文本
+ */
+export const parseTSV = (text: string): string[][] => {
+  const input = text.replace(/\r\n?/gu, '\n').replace(/\n$/u, '');
+  const rows: string[][] = [[]];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (input[i + 1] === '"') {
+        field += char;
+        i += 1;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === '\t' || char === '\n') {
+      rows[rows.length - 1].push(field);
+      field = '';
+      if (char === '\n') {
+        rows.push([]);
+      }
+    } else {
+      field += char;
+    }
+  }
+  rows[rows.length - 1].push(field);
+  return rows;
+};
+
+/**
+ * 按照列编辑器类型，将粘贴的文本转换为单元格值，自定义编辑器保留原始文本
+ * @param text 粘贴的文本
+ * @param column 列定义
+ * @param texts 界面文案
+ * @returns 单元格值，无法转换时返回失败提示
+ */
+export const parseCellText = (
+  text: string,
+  column: Pick<DripTableColumnSchema, 'editor' | 'editorOptions'>,
+  texts: Required<Pick<DripTableTexts, 'pasteInvalidNumber' | 'pasteInvalidSwitch' | 'pasteInvalidOption'>>,
+): { value: unknown } | { error: string } => {
+  const options = column.editorOptions || {};
+  const trimmed = text.trim();
+  switch (column.editor) {
+    case 'number': {
+      if (trimmed === '') {
+        return { value: null };
+      }
+      const value = Number(trimmed.replace(/,/gu, ''));
+      return Number.isNaN(value) ? { error: formatText(texts.pasteInvalidNumber, { text }) } : { value };
+    }
+    case 'switch': {
+      const checkedValue = options.checkedValue ?? true;
+      const uncheckedValue = options.uncheckedValue ?? false;
+      if ([String(checkedValue), options.checkedText, 'true'].includes(trimmed)) {
+        return { value: checkedValue };
+      }
+      if ([String(uncheckedValue), options.uncheckedText, 'false'].includes(trimmed)) {
+        return { value: uncheckedValue };
+      }
+      return { error: formatText(texts.pasteInvalidSwitch, { text }) };
+    }
+    case 'select': {
+      const labels = options.multiple
+        ? trimmed.split(/[,，]/u).map(label => label.trim()).filter(Boolean)
+        : [trimmed].filter(Boolean);
+      const values: (string | number)[] = [];
+      for (const label of labels) {
+        const option = options.options?.find(o => o.label === label || String(o.value) === label);
+        if (!option) {
+          return { error: formatText(texts.pasteInvalidOption, { label }) };
+        }
+        values.push(option.value);
+      }
+      return { value: options.multiple ? values : values[0] };
+    }
+    default:
+      return { value: text };
+  }
+};
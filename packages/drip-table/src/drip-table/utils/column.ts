@@ -0,0 +1,140 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableColumnGroupSchema } from '@/types';
+
+type ColumnNode<Column> = Column | DripTableColumnGroupSchema<Column>;
+
+/**
+ * 判断列定义是否为列分组
+ * @param column 列定义或列分组
+ * @returns 是否为列分组
+ */
+export const isDripTableColumnGroup = <Column>(column: ColumnNode<Column>): column is DripTableColumnGroupSchema<Column> =>
+  typeof column === 'object'
+  && column !== null
+  && Array.isArray((column as Partial<DripTableColumnGroupSchema<Column>>).children);
+
+/**
+ * 判断列是否为行编辑列：配置了编辑器且未关闭编辑
+ * @param column 列定义
+ * @returns 是否为行编辑列
+ */
+export const isRowEditColumn = (column: { editor?: unknown; editable?: boolean }) => !!column.editor && column.editable !== false;
+
+/**
+ * 展开列分组，获取所有叶子列
+ * @param columns 列定义
+ * @returns 按表头从左到右顺序排列的叶子列
+ */
+export const flattenColumns = <Column>(columns: readonly ColumnNode<Column>[]): Column[] =>
+  columns.flatMap(column => (isDripTableColumnGroup(column) ? flattenColumns(column.children) : [column]));
+
+/**
+ * 展开列分组，获取所有列以及列分组节点
+ * @param columns 列定义
+ * @param depth 当前层级
+ * @returns 先序遍历的节点列表及其层级
+ */
+export const flattenColumnNodes = <Column>(columns: readonly ColumnNode<Column>[], depth = 0): { column: ColumnNode<Column>; depth: number }[] =>
+  columns.flatMap(column => [
+    { column, depth },
+    ...isDripTableColumnGroup(column) ? flattenColumnNodes(column.children, depth + 1) : [],
+  ]);
+
+/**
+ * 保持分组结构转换所有叶子列
+ * @param columns 列定义
+ * @param mapper 叶子列转换函数
+ * @returns 转换后的列定义
+ */
+export const mapColumns = <Column, Result>(columns: readonly ColumnNode<Column>[], mapper: (column: Column) => Result): ColumnNode<Result>[] =>
+  columns.map(column => (isDripTableColumnGroup(column)
+    ? { ...column, children: mapColumns(column.children, mapper) }
+    : mapper(column)));
+
+/**
+ * 按照列顺序递归排序同级列，未在列顺序中的列保持原有顺序排在最后
+ * @param columns 列定义
+ * @param order 列顺序（列 key 数组）
+ * @returns 排序后的列定义
+ */
+export const sortColumns = <Column extends { key: string }>(columns: readonly ColumnNode<Column>[], order: readonly string[]): ColumnNode<Column>[] => {
+  if (order.length === 0) {
+    return [...columns];
+  }
+  const indexOf = (key: string) => {
+    const index = order.indexOf(key);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return columns
+    .map((column, index) => ({ column, index }))
+    .sort((a, b) => indexOf(a.column.key) - indexOf(b.column.key) || a.index - b.index)
+    .map(({ column }) => (isDripTableColumnGroup(column)
+      ? { ...column, children: sortColumns(column.children, order) }
+      : column));
+};
+
+/**
+ * 获取同级相邻列的 key
+ * @param columns 列定义
+ * @param key 列 key
+ * @param offset 偏移量，负数表示向前
+ * @returns 相邻列 key，不存在时返回 undefined
+ */
+export const getSiblingColumnKey = <Column extends { key: string }>(columns: readonly ColumnNode<Column>[], key: string, offset: number): string | undefined => {
+  const index = columns.findIndex(c => c.key === key);
+  if (index !== -1) {
+    return columns[index + offset]?.key;
+  }
+  for (const column of columns) {
+    if (isDripTableColumnGroup(column)) {
+      const sibling = getSiblingColumnKey(column.children, key, offset);
+      if (sibling !== void 0) {
+        return sibling;
+      }
+    }
+  }
+  return void 0;
+};
+
+/**
+ * 将列移动到同级目标列的位置，两列不属于同一分组时不移动
+ * @param columns 列定义
+ * @param sourceKey 移动列 key
+ * @param targetKey 目标列 key
+ * @returns 移动后的列顺序，无法移动时返回 null
+ */
+export const moveColumn = <Column extends { key: string }>(columns: readonly ColumnNode<Column>[], sourceKey: string, targetKey: string): string[] | null => {
+  const move = (nodes: readonly ColumnNode<Column>[]): ColumnNode<Column>[] | null => {
+    const sourceIndex = nodes.findIndex(c => c.key === sourceKey);
+    const targetIndex = nodes.findIndex(c => c.key === targetKey);
+    if (sourceIndex !== -1 || targetIndex !== -1) {
+      if (sourceIndex === -1 || targetIndex === -1 || sourceIndex === targetIndex) {
+        return null;
+      }
+      const result = [...nodes];
+      const [column] = result.splice(sourceIndex, 1);
+      result.splice(targetIndex, 0, column);
+      return result;
+    }
+    for (const [i, column] of nodes.entries()) {
+      if (isDripTableColumnGroup(column)) {
+        const children = move(column.children);
+        if (children) {
+          const result = [...nodes];
+          result[i] = { ...column, children };
+          return result;
+        }
+      }
+    }
+    return null;
+  };
+  const result = move(columns);
+  return result ? flattenColumnNodes(result).map(n => n.column.key) : null;
+};
@@ -0,0 +1,138 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableColumnGroupSchema, type DripTableColumnSchema, type DripTableExportFormat, type DripTableExpressionMode } from '@/types';
+
+import DripTableBuiltInComponents from '../components';
+import { type DTCGroupColumnSchema } from '../components/group';
+import { indexValue, stringify } from '.';
+import { isDripTableColumnGroup } from './column';
+import { toXLSX } from './xlsx';
+
+type ExportColumn = Pick<DripTableColumnSchema, 'key' | 'title' | 'dataIndex' | 'component' | 'options' | 'hidable' | 'defaultValue'>;
+
+/**
+ * 可生成纯文本内容的单元格组件
+ */
+export interface DripTableTextualComponent {
+  toText?: (schema: never, data: never, expressionMode?: DripTableExpressionMode) => string;
+}
+
+/**
+ * 根据单元格组件查找函数
+ * @param component 组件名称，自定义组件格式为 `库名::组件名`
+ * @returns 单元格组件
+ */
+export type DripTableComponentResolver = (component: string) => DripTableTextualComponent | undefined;
+
+/**
+ * 默认单元格组件查找函数，仅查找内置组件
+ * @param component 组件名称
+ * @returns 单元格组件
+ */
+export const resolveBuiltInComponent: DripTableComponentResolver = component =>
+  (DripTableBuiltInComponents as Record<string, DripTableTextualComponent>)[component];
+
+/**
+ * 创建单元格组件查找函数，自定义组件从传入的组件库中查找
+ * @param components 自定义组件库
+ * @returns 组件查找函数
+ */
+export const createComponentResolver = (components?: Record<string, Record<string, unknown>>): DripTableComponentResolver => (component) => {
+  const [libName, componentName] = component.split('::');
+  if (libName && componentName) {
+    return components?.[libName]?.[componentName] as DripTableTextualComponent | undefined;
+  }
+  return resolveBuiltInComponent(component);
+};
+
+/**
+ * 按照单元格组件的展示语义生成单元格纯文本，组件未提供 toText 时使用原始值
+ * @param column 列定义
+ * @param record 行数据
+ * @param resolve 组件查找函数
+ * @param expressionMode 表达式执行模式
+ * @returns 单元格纯文本
+ */
+export const cellToText = (column: ExportColumn, record: unknown, resolve: DripTableComponentResolver, expressionMode?: DripTableExpressionMode): string => {
+  if (column.component === 'group') {
+    return ((column as unknown as DTCGroupColumnSchema<ExportColumn>).options.items || [])
+      .map(item => (item ? cellToText(item, record, resolve, expressionMode) : ''))
+      .filter(Boolean)
+      .join(' ');
+  }
+  const toText = resolve(column.component)?.toText as ((schema: ExportColumn, data: unknown, mode?: DripTableExpressionMode) => string) | undefined;
+  if (toText) {
+    return toText(column, record, expressionMode);
+  }
+  return stringify(indexValue(record, column.dataIndex, column.defaultValue));
+};
+
+/**
+ * 展开待导出的列，分组表头以 “ / ” 拼接为列标题
+ * @param columns 列定义（已按列顺序排序）
+ * @param displayColumnKeys 用户展示的列 key
+ * @param includeHidden 是否包含用户隐藏的列
+ * @param parentTitle 父级分组标题
+ * @returns 待导出的叶子列及其标题
+ */
+export const flattenExportColumns = <Column extends ExportColumn>(
+  columns: readonly (Column | DripTableColumnGroupSchema<Column>)[],
+  displayColumnKeys: readonly React.Key[],
+  includeHidden?: boolean,
+  parentTitle?: string,
+): { title: string; column: Column }[] => columns
+    .filter(column => includeHidden || !column.hidable || displayColumnKeys.includes(column.key))
+    .flatMap((column) => {
+      const title = parentTitle ? `${parentTitle} / ${column.title}` : column.title;
+      return isDripTableColumnGroup(column)
+        ? flattenExportColumns(column.children, displayColumnKeys, includeHidden, title)
+        : [{ title, column }];
+    });
+
+/**
+ * 生成 CSV 文件内容，带 BOM 以便 Excel 识别 UTF-8 编码
+ * @param rows 表格内容，首行为表头
+ * @returns CSV 文件内容
+ */
+export const toCSV = (rows: string[][]): string => `\uFEFF${rows
+  .map(row => row
+    .map(text => ((/[",\r\n]/u).test(text) ? `"${text.replace(/"/gu, '""')}"` : text))
+    .join(','))
+  .join('\r\n')}`;
+
+/**
+ * 将表格内容序列化为导出文件
+ * @param rows 表格内容，首行为表头
+ * @param format 导出格式
+ * @param sheetName 工作表名称
+ * @returns 导出文件
+ */
+export const serializeRows = (rows: string[][], format: DripTableExportFormat, sheetName?: string): Blob => {
+  if (format === 'xlsx') {
+    return new Blob([toXLSX(rows, sheetName)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  }
+  return new Blob([toCSV(rows)], { type: 'text/csv;charset=utf-8' });
+};
+
+/**
+ * 触发浏览器下载文件
+ * @param blob 文件内容
+ * @param filename 文件名
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.append(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
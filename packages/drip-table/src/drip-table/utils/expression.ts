@@ -0,0 +1,468 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableExpressionMode } from '@/types';
+
+import { stringify } from '.';
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'punctuator'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'identifier'; name: string }
+  | { type: 'array'; elements: ExpressionNode[] }
+  | { type: 'member'; object: ExpressionNode; property: ExpressionNode; optional: boolean }
+  | { type: 'call'; callee: string; args: ExpressionNode[] }
+  | { type: 'unary'; operator: string; argument: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode };
+
+/**
+ * 表达式变量作用域
+ */
+export type DripTableExpressionScope = Record<string, unknown>;
+
+/**
+ * 编译后的表达式
+ */
+export type DripTableCompiledExpression = (scope: DripTableExpressionScope) => unknown;
+
+const PUNCTUATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '?.', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '.', ',', '(', ')', '[', ']'];
+
+const KEYWORDS: Record<string, unknown> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: void 0,
+};
+
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4,
+  '!=': 4,
+  '===': 4,
+  '!==': 4,
+  '<': 5,
+  '<=': 5,
+  '>': 5,
+  '>=': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7,
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * 表达式内可调用的辅助函数
+ */
+export const expressionHelpers: Record<string, (...args: unknown[]) => unknown> = {
+  /**
+   * 格式化日期，支持 YYYY、MM、DD、HH、mm、ss 占位符
+   */
+  formatDate: (value, format = 'YYYY-MM-DD HH:mm:ss') => {
+    if (value === null || value === void 0 || value === '') {
+      return '';
+    }
+    const date = value instanceof Date ? value : new Date(value as string | number);
+    if (Number.isNaN(date.getTime())) {
+      return '';
+    }
+    return String(format).replace(/YYYY|MM|DD|HH|mm|ss/gu, (token) => {
+      switch (token) {
+        case 'YYYY': return pad(date.getFullYear(), 4);
+        case 'MM': return pad(date.getMonth() + 1);
+        case 'DD': return pad(date.getDate());
+        case 'HH': return pad(date.getHours());
+        case 'mm': return pad(date.getMinutes());
+        default: return pad(date.getSeconds());
+      }
+    });
+  },
+  /**
+   * 保留指定位数小数
+   */
+  toFixed: (value, digits = 0) => {
+    const num = Number(value);
+    return Number.isNaN(num) ? '' : num.toFixed(Number(digits));
+  },
+  /**
+   * 使用分隔符连接数组
+   */
+  join: (value, separator = ',') => (Array.isArray(value) ? value.map(stringify).join(String(separator)) : stringify(value)),
+  /**
+   * 转换为小写
+   */
+  lower: value => stringify(value).toLowerCase(),
+  /**
+   * 转换为大写
+   */
+  upper: value => stringify(value).toUpperCase(),
+};
+
+/**
+ * 词法分析
+ * @param source 表达式
+ * @returns 词法单元
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if ((/\s/u).test(char)) {
+      i += 1;
+      continue;
+    }
+    if ((/[0-9]/u).test(char) || (char === '.' && (/[0-9]/u).test(source[i + 1] || ''))) {
+      const match = (/^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/u).exec(source.slice(i));
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'number', value: Number(text), position: i });
+      i += text.length;
+      continue;
+    }
+    if (char === '\'' || char === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          const escaped = source[j + 1];
+          value += { n: '\n', t: '\t', r: '\r' }[escaped] ?? escaped;
+          j += 2;
+        } else {
+          value += source[j];
+          j += 1;
+        }
+      }
+      if (j >= source.length) {
+        throw new SyntaxError(`Unterminated string at position ${i}`);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+    if ((/[A-Za-z_$]/u).test(char)) {
+      const match = (/^[A-Za-z_$][A-Za-z0-9_$]*/u).exec(source.slice(i));
+      const text = match ? match[0] : char;
+      tokens.push({ type: 'identifier', value: text, position: i });
+      i += text.length;
+      continue;
+    }
+    const punctuator = PUNCTUATORS.find(p => source.startsWith(p, i));
+    if (!punctuator) {
+      throw new SyntaxError(`Unexpected character "${char}" at position ${i}`);
+    }
+    tokens.push({ type: 'punctuator', value: punctuator, position: i });
+    i += punctuator.length;
+  }
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+};
+
+/**
+ * 语法分析，生成表达式语法树
+ * @param source 表达式
+ * @returns 语法树
+ */
+const parse = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isPunctuator = (value: string) => peek().type === 'punctuator' && peek().value === value;
+  const unexpected = (token: Token) => new SyntaxError(token.type === 'end'
+    ? 'Unexpected end of expression'
+    : `Unexpected token "${token.value}" at position ${token.position}`);
+  const expect = (value: string) => {
+    if (!isPunctuator(value)) {
+      throw unexpected(peek());
+    }
+    index += 1;
+  };
+
+  const parseList = (close: string): ExpressionNode[] => {
+    const list: ExpressionNode[] = [];
+    while (!isPunctuator(close)) {
+      list.push(parseConditional());
+      if (!isPunctuator(',')) {
+        break;
+      }
+      index += 1;
+    }
+    expect(close);
+    return list;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    index += 1;
+    if (token.type === 'number' || token.type === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.type === 'identifier') {
+      if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+        return { type: 'literal', value: KEYWORDS[token.value] };
+      }
+      if (isPunctuator('(')) {
+        index += 1;
+        return { type: 'call', callee: token.value, args: parseList(')') };
+      }
+      return { type: 'identifier', name: token.value };
+    }
+    if (token.type === 'punctuator' && token.value === '(') {
+      const expression = parseConditional();
+      expect(')');
+      return expression;
+    }
+    if (token.type === 'punctuator' && token.value === '[') {
+      return { type: 'array', elements: parseList(']') };
+    }
+    throw unexpected(token);
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+    for (;;) {
+      const optional = isPunctuator('?.');
+      if (optional || isPunctuator('.')) {
+        index += 1;
+        if (optional && isPunctuator('[')) {
+          index += 1;
+          node = { type: 'member', object: node, property: parseConditional(), optional };
+          expect(']');
+          continue;
+        }
+        const token = peek();
+        if (token.type !== 'identifier') {
+          throw unexpected(token);
+        }
+        index += 1;
+        node = { type: 'member', object: node, property: { type: 'literal', value: token.value }, optional };
+      } else if (isPunctuator('[')) {
+        index += 1;
+        node = { type: 'member', object: node, property: parseConditional(), optional: false };
+        expect(']');
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (token.type === 'punctuator' && (token.value === '!' || token.value === '-' || token.value === '+')) {
+      index += 1;
+      return { type: 'unary', operator: token.value, argument: parseUnary() };
+    }
+    return parsePostfix();
+  };
+
+  const parseBinary = (minPrecedence: number): ExpressionNode => {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const operator = token.type === 'punctuator' ? token.value : '';
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (!precedence || precedence < minPrecedence) {
+        return left;
+      }
+      index += 1;
+      left = { type: 'binary', operator, left, right: parseBinary(precedence + 1) };
+    }
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(1);
+    if (!isPunctuator('?')) {
+      return test;
+    }
+    index += 1;
+    const consequent = parseConditional();
+    expect(':');
+    const alternate = parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  };
+
+  const ast = parseConditional();
+  if (peek().type !== 'end') {
+    throw unexpected(peek());
+  }
+  return ast;
+};
+
+const isNullish = (value: unknown) => value === null || value === void 0;
+
+/**
+ * 宽松相等：null 与 undefined 视为相等，其余情况按严格相等比较
+ * @param left 左值
+ * @param right 右值
+ * @returns 是否相等
+ */
+const looseEquals = (left: unknown, right: unknown) => (isNullish(left) || isNullish(right)
+  ? isNullish(left) && isNullish(right)
+  : left === right);
+
+/**
+ * 计算语法树
+ * @param node 语法树节点
+ * @param scope 变量作用域
+ * @returns 计算结果
+ */
+const evaluate = (node: ExpressionNode, scope: DripTableExpressionScope): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      if (!Object.prototype.hasOwnProperty.call(scope, node.name)) {
+        throw new ReferenceError(`${node.name} is not defined`);
+      }
+      return scope[node.name];
+    case 'array':
+      return node.elements.map(element => evaluate(element, scope));
+    case 'member': {
+      const object = evaluate(node.object, scope);
+      if (object === null || object === void 0) {
+        if (node.optional) {
+          return void 0;
+        }
+        throw new TypeError(`Cannot read properties of ${String(object)}`);
+      }
+      const property = stringify(evaluate(node.property, scope));
+      if (FORBIDDEN_PROPERTIES.has(property)) {
+        throw new TypeError(`Access to property "${property}" is not allowed`);
+      }
+      const value = (object as Record<string, unknown>)[property];
+      return typeof value === 'function' ? void 0 : value;
+    }
+    case 'call': {
+      if (!Object.prototype.hasOwnProperty.call(expressionHelpers, node.callee)) {
+        throw new ReferenceError(`${node.callee} is not a supported function`);
+      }
+      return expressionHelpers[node.callee](...node.args.map(arg => evaluate(arg, scope)));
+    }
+    case 'unary': {
+      const argument = evaluate(node.argument, scope);
+      if (node.operator === '!') {
+        return !argument;
+      }
+      return node.operator === '-' ? -(argument as number) : Number(argument);
+    }
+    case 'conditional':
+      return evaluate(node.test, scope) ? evaluate(node.consequent, scope) : evaluate(node.alternate, scope);
+    case 'binary': {
+      if (node.operator === '&&') {
+        return evaluate(node.left, scope) && evaluate(node.right, scope);
+      }
+      if (node.operator === '||') {
+        return evaluate(node.left, scope) || evaluate(node.right, scope);
+      }
+      if (node.operator === '??') {
+        return evaluate(node.left, scope) ?? evaluate(node.right, scope);
+      }
+      const left = evaluate(node.left, scope) as number;
+      const right = evaluate(node.right, scope) as number;
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '==': return looseEquals(left, right);
+        case '!=': return !looseEquals(left, right);
+        case '===': return left === right;
+        default: return left !== right;
+      }
+    }
+    default:
+      return void 0;
+  }
+};
+
+const COMPILE_CACHE_SIZE = 500;
+const COMPILE_CACHE = new Map<string, DripTableCompiledExpression>();
+
+/**
+ * 编译安全表达式，相同表达式复用编译结果。
+ * 支持属性访问、算术、比较、逻辑、三元运算以及 expressionHelpers 中的辅助函数，不支持赋值与调用任意函数。
+ * @param source 表达式
+ * @returns 编译后的表达式
+ */
+export const compileExpression = (source: string): DripTableCompiledExpression => {
+  let compiled = COMPILE_CACHE.get(source);
+  if (!compiled) {
+    const ast = parse(source);
+    compiled = scope => evaluate(ast, scope);
+    if (COMPILE_CACHE.size >= COMPILE_CACHE_SIZE) {
+      COMPILE_CACHE.delete(COMPILE_CACHE.keys().next().value as string);
+    }
+    COMPILE_CACHE.set(source, compiled);
+  }
+  return compiled;
+};
+
+/**
+ * 计算表达式，变量 rec 为当前行数据
+ * @param source 表达式
+ * @param rec 当前行数据
+ * @param mode 表达式模式：{'legacy'} 使用 new Function 执行；{'safe'} 使用安全表达式引擎
+ * @returns 计算结果
+ */
+export const evaluateExpression = (source: string, rec: unknown, mode: DripTableExpressionMode = 'legacy'): unknown => {
+  if (mode === 'safe') {
+    return compileExpression(source.trim())({ rec });
+  }
+  return new Function('rec', `return ${source}`)(rec);
+};
+
+/**
+ * 执行脚本，变量 rec 为当前行数据。安全模式下脚本仅可包含一条 `return` 表达式语句
+ * @param source 脚本
+ * @param rec 当前行数据
+ * @param mode 表达式模式
+ * @returns 脚本返回值
+ */
+export const evaluateScript = (source: string, rec: unknown, mode: DripTableExpressionMode = 'legacy'): unknown => {
+  if (mode === 'safe') {
+    const expression = source.trim().replace(/^return\b/u, '').replace(/;$/u, '');
+    return compileExpression(expression.trim())({ rec });
+  }
+  return new Function('rec', source)(rec);
+};
+
+/**
+ * 填充模板字符串中的 `{{expression}}` 表达式，计算失败时替换为错误信息
+ * @param template 模板字符串
+ * @param rec 当前行数据
+ * @param mode 表达式模式
+ * @returns 最终字符串
+ */
+export const renderTemplate = (template: string, rec: unknown, mode: DripTableExpressionMode = 'legacy'): string =>
+  template.replace(/\{\{(.+?)\}\}/guis, (s, s1: string) => {
+    try {
+      return stringify(evaluateExpression(s1, rec, mode));
+    } catch (error) {
+      return error instanceof Error
+        ? `{{Render Error: ${error.message}}}`
+        : '{{Unknown Render Error}}';
+    }
+  });
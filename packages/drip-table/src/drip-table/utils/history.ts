@@ -0,0 +1,58 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableEditPatch, type DripTableRecordTypeBase, type DripTableTreeSchema } from '@/types';
+import { type IDripTableContext } from '@/context';
+
+import { assignValue } from '.';
+import { updateTreeRecord } from './tree';
+
+/**
+ * 编辑历史最多保留的记录条数
+ */
+const HISTORY_LIMIT = 100;
+
+/**
+ * 记录一次数据编辑操作，同时清空重做记录
+ * @param history 编辑历史
+ * @param patches 本次操作中各行的编辑记录
+ * @returns 新的编辑历史
+ */
+export const pushEditPatches = (history: IDripTableContext['editHistory'], patches: DripTableEditPatch[]): IDripTableContext['editHistory'] => ({
+  past: [...history.past, patches].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+/**
+ * 将一次编辑操作应用到数据源
+ * @param dataSource 数据源
+ * @param rowKey 行主键字段名
+ * @param patches 本次操作中各行的编辑记录
+ * @param direction 应用方向：撤销时写回修改前的值，重做时写回修改后的值
+ * @param tree 树形数据设置，设置时同时查找子节点中的行
+ * @returns 新的数据源，所有对应行均不在数据源中时返回 null
+ */
+export const applyEditPatches = <RecordType extends DripTableRecordTypeBase>(
+  dataSource: readonly RecordType[],
+  rowKey: string,
+  patches: readonly DripTableEditPatch[],
+  direction: 'undo' | 'redo',
+  tree?: DripTableTreeSchema,
+): RecordType[] | null => {
+  let ds = [...dataSource];
+  let applied = false;
+  for (const patch of direction === 'undo' ? [...patches].reverse() : patches) {
+    const changes = direction === 'undo' ? [...patch.changes].reverse() : patch.changes;
+    const updated = updateTreeRecord(ds, tree, rowKey, patch.rowKey, record => changes.reduce((rec, change) => assignValue(rec, change.dataIndex, direction === 'undo' ? change.from : change.to), record));
+    if (updated) {
+      ds = updated;
+      applied = true;
+    }
+  }
+  return applied ? ds : null;
+};
@@ -65,6 +65,22 @@ export const setValue = (data: unknown, indexes: string | string[], value: unkno
   }
 };
 
+/**
+ * 设置指定下标值并返回新对象，不修改原对象，路径上的对象均浅拷贝
+ * @param data 基础对象
+ * @param indexes 下标或下标数组
+ * @param value 设置的值
+ * @returns 新对象
+ */
+export const assignValue = <T>(data: T, indexes: string | string[], value: unknown): T => {
+  const [key, ...rest] = typeof indexes === 'string' ? [indexes] : indexes;
+  if (key === void 0) {
+    return data;
+  }
+  const base = typeof data === 'object' && data ? data as Record<string, unknown> : {};
+  return { ...base, [key]: rest.length > 0 ? assignValue(base[key], rest, value) : value } as unknown as T;
+};
+
 /**
  * 格式化变量用于提供给渲染函数
  * @param v 任意数据
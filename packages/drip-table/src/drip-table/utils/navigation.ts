@@ -0,0 +1,100 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+/**
+ * 单元格在当前页渲染数据中的位置
+ */
+export interface DripTableCellPosition {
+  rowIndex: number;
+  columnIndex: number;
+}
+
+/**
+ * 以行主键与列 key 标识的单元格
+ */
+export interface DripTableCellKey {
+  rowKey: string;
+  columnKey: string;
+}
+
+/**
+ * PageUp/PageDown 每次移动的行数
+ */
+const PAGE_STEP = 10;
+
+/**
+ * 获取表格当前页实际渲染的数据，与表格组件分页切片逻辑保持一致：
+ * 数据条数小于总数且不超过每页条数时视为已分页数据，否则按当前页切片
+ * @param dataSource 传入表格组件的数据源
+ * @param pagination 分页状态，不分页时为 false
+ * @returns 当前页渲染的数据
+ */
+export const getPageData = <T>(
+  dataSource: readonly T[],
+  pagination: false | { current: number; pageSize: number; total: number },
+): readonly T[] => {
+  if (!pagination) {
+    return dataSource;
+  }
+  const { current, pageSize, total } = pagination;
+  if (dataSource.length < total && dataSource.length <= pageSize) {
+    return dataSource;
+  }
+  return dataSource.slice((current - 1) * pageSize, current * pageSize);
+};
+
+/**
+ * 根据按键计算焦点单元格的新位置
+ * @param position 当前位置
+ * @param event 键盘事件
+ * @param rowCount 行数
+ * @param columnCount 列数
+ * @returns 新位置，按键与导航无关或 Tab 移出表格边界时返回 null
+ */
+export const moveCellPosition = (
+  position: DripTableCellPosition,
+  event: Pick<KeyboardEvent, 'key' | 'shiftKey' | 'ctrlKey' | 'metaKey'>,
+  rowCount: number,
+  columnCount: number,
+): DripTableCellPosition | null => {
+  const { rowIndex, columnIndex } = position;
+  const lastRow = rowCount - 1;
+  const lastColumn = columnCount - 1;
+  const clampRow = (index: number) => Math.min(Math.max(index, 0), lastRow);
+  switch (event.key) {
+    case 'ArrowUp':
+      return { rowIndex: clampRow(rowIndex - 1), columnIndex };
+    case 'ArrowDown':
+      return { rowIndex: clampRow(rowIndex + 1), columnIndex };
+    case 'ArrowLeft':
+      return { rowIndex, columnIndex: Math.max(columnIndex - 1, 0) };
+    case 'ArrowRight':
+      return { rowIndex, columnIndex: Math.min(columnIndex + 1, lastColumn) };
+    case 'Tab': {
+      const offset = rowIndex * columnCount + columnIndex + (event.shiftKey ? -1 : 1);
+      if (offset < 0 || offset > rowCount * columnCount - 1) {
+        return null;
+      }
+      return { rowIndex: Math.floor(offset / columnCount), columnIndex: offset % columnCount };
+    }
+    case 'Home':
+      return event.ctrlKey || event.metaKey
+        ? { rowIndex: 0, columnIndex: 0 }
+        : { rowIndex, columnIndex: 0 };
+    case 'End':
+      return event.ctrlKey || event.metaKey
+        ? { rowIndex: lastRow, columnIndex: lastColumn }
+        : { rowIndex, columnIndex: lastColumn };
+    case 'PageUp':
+      return { rowIndex: clampRow(rowIndex - PAGE_STEP), columnIndex };
+    case 'PageDown':
+      return { rowIndex: clampRow(rowIndex + PAGE_STEP), columnIndex };
+    default:
+      return null;
+  }
+};
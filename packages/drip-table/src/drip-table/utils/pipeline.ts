@@ -0,0 +1,153 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import {
+  type DripTableColumnSchema,
+  type DripTableFilters,
+  type DripTableSorter,
+} from '@/types';
+
+import { indexValue, stringify } from '.';
+import { sortDataSource } from './sorter';
+
+type PipelineColumn = Pick<DripTableColumnSchema, 'key' | 'dataIndex' | 'sortable' | 'sorter' | 'sortType'>;
+
+/**
+ * 前端数据处理自定义判定函数
+ */
+export interface DripTableDataPredicates<RecordType> {
+  /**
+   * 按列键自定义过滤判定函数，返回 true 表示保留该行
+   */
+  filter?: Record<string, (value: unknown, record: RecordType, filteredValues: (React.Key | boolean)[]) => boolean>;
+  /**
+   * 按列键自定义搜索判定函数，返回 true 表示该行匹配关键字
+   */
+  search?: Record<string, (value: unknown, record: RecordType, searchStr: string) => boolean>;
+}
+
+/**
+ * 前端数据处理参数
+ */
+export interface DripTablePipelineOptions<RecordType> {
+  /**
+   * 参与处理的列
+   */
+  columns: readonly PipelineColumn[];
+  /**
+   * 过滤器状态
+   */
+  filters?: DripTableFilters;
+  /**
+   * 搜索状态
+   */
+  search?: { searchKey?: number | string; searchStr: string };
+  /**
+   * 排序状态
+   */
+  sorter?: DripTableSorter | null;
+  /**
+   * 分页状态，不传时不分页
+   */
+  pagination?: { current: number; pageSize: number } | false;
+  /**
+   * 自定义判定函数
+   */
+  predicates?: DripTableDataPredicates<RecordType>;
+}
+
+/**
+ * 根据底层表格返回的列标识（列 key 或 dataIndex 路径）查找列
+ * @param columns 列定义
+ * @param key 列标识
+ * @returns 列定义
+ */
+export const findColumnByDriverKey = <Column extends Pick<DripTableColumnSchema, 'key' | 'dataIndex'>>(columns: readonly Column[], key: string): Column | undefined =>
+  columns.find(c => c.key === key)
+  || columns.find(c => (Array.isArray(c.dataIndex) ? c.dataIndex.join('.') : c.dataIndex) === key);
+
+/**
+ * 按照过滤器状态过滤数据源
+ * @param dataSource 数据源
+ * @param options 处理参数
+ * @returns 过滤后的数据源
+ */
+export const filterDataSource = <RecordType>(dataSource: readonly RecordType[], options: DripTablePipelineOptions<RecordType>): readonly RecordType[] => {
+  const filters = Object.entries(options.filters || {})
+    .filter(([, values]) => values && values.length > 0)
+    .map(([key, values]) => ({ column: findColumnByDriverKey(options.columns, key), values: values || [] }));
+  if (filters.length === 0) {
+    return dataSource;
+  }
+  return dataSource.filter(record => filters.every(({ column, values }) => {
+    if (!column) {
+      return true;
+    }
+    const value = indexValue(record, column.dataIndex);
+    const predicate = options.predicates?.filter?.[column.key];
+    if (predicate) {
+      return predicate(value, record, values);
+    }
+    return values.some(v => v === value || String(v) === stringify(value));
+  }));
+};
+
+/**
+ * 按照搜索关键字过滤数据源，指定 searchKey 时仅匹配对应列（列 key 或 dataIndex），否则匹配所有列
+ * @param dataSource 数据源
+ * @param options 处理参数
+ * @returns 过滤后的数据源
+ */
+export const searchDataSource = <RecordType>(dataSource: readonly RecordType[], options: DripTablePipelineOptions<RecordType>): readonly RecordType[] => {
+  const searchStr = options.search?.searchStr?.trim();
+  if (!searchStr) {
+    return dataSource;
+  }
+  const searchKey = options.search?.searchKey;
+  const columns = searchKey === void 0 || searchKey === ''
+    ? options.columns
+    : options.columns.filter(c => c === findColumnByDriverKey(options.columns, String(searchKey)));
+  const keyword = searchStr.toLowerCase();
+  return dataSource.filter(record => columns.some((column) => {
+    const value = indexValue(record, column.dataIndex);
+    const predicate = options.predicates?.search?.[column.key];
+    if (predicate) {
+      return predicate(value, record, searchStr);
+    }
+    return stringify(value).toLowerCase().includes(keyword);
+  }));
+};
+
+/**
+ * 前端数据处理流水线：过滤 → 搜索 → 排序 → 分页
+ * @param dataSource 数据源
+ * @param options 处理参数
+ * @returns 当前页数据、分页前的全部数据、处理后的数据总条数以及修正后的页码
+ */
+export const processDataSource = <RecordType>(dataSource: readonly RecordType[], options: DripTablePipelineOptions<RecordType>): { dataSource: RecordType[]; allDataSource: RecordType[]; total: number; current: number } => {
+  let data = filterDataSource(dataSource, options);
+  data = searchDataSource(data, options);
+  const sorter = options.sorter;
+  const sortColumn = sorter
+    ? options.columns.find(c => c.key === sorter.key && c.sortable)
+    : void 0;
+  if (sorter && sortColumn && sortColumn.sorter !== 'server') {
+    data = sortDataSource(data, sortColumn, sorter.order);
+  }
+  const allDataSource = [...data];
+  const total = data.length;
+  let current = 1;
+  if (options.pagination) {
+    const pageSize = options.pagination.pageSize;
+    // 过滤后数据变少时页码不能超出最后一页
+    current = Math.min(Math.max(options.pagination.current, 1), Math.max(Math.ceil(total / pageSize), 1));
+    const start = (current - 1) * pageSize;
+    data = data.slice(start, start + pageSize);
+  }
+  return { dataSource: [...data], allDataSource, total, current };
+};
@@ -0,0 +1,48 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableExpressionMode, type DripTableRowSelectionSchema, type DripTableSchema } from '@/types';
+
+import { evaluateExpression } from './expression';
+
+/**
+ * 规范化选择栏配置
+ * @param rowSelection 选择栏 Schema
+ * @returns 选择栏配置，未开启选择栏时返回 null
+ */
+export const normalizeRowSelection = (rowSelection: DripTableSchema['rowSelection']): DripTableRowSelectionSchema | null => {
+  if (!rowSelection) {
+    return null;
+  }
+  return rowSelection === true ? {} : rowSelection;
+};
+
+/**
+ * 是否支持跨页全选
+ * @param rowSelection 选择栏配置
+ * @returns 是否支持跨页全选
+ */
+export const canSelectAllPages = (rowSelection: DripTableRowSelectionSchema | null) => !!rowSelection?.allPages && rowSelection.type !== 'radio';
+
+/**
+ * 判断行是否禁用选择，表达式计算失败时视为可选择
+ * @param rowSelection 选择栏配置
+ * @param record 行数据
+ * @param expressionMode 表达式执行模式
+ * @returns 是否禁用选择
+ */
+export const isRowSelectionDisabled = (rowSelection: DripTableRowSelectionSchema | null, record: unknown, expressionMode?: DripTableExpressionMode): boolean => {
+  if (!rowSelection?.disabled) {
+    return false;
+  }
+  try {
+    return !!evaluateExpression(rowSelection.disabled, record, expressionMode);
+  } catch {
+    return false;
+  }
+};
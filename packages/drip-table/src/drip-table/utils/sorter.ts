@@ -0,0 +1,114 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableColumnSchema, type DripTableSorter, type DripTableSortOrder } from '@/types';
+
+import { indexValue } from '.';
+
+type SortType = NonNullable<DripTableColumnSchema['sortType']>;
+
+/**
+ * 将数据转换为可比较的值，无法比较时返回 null
+ * @param value 原始数据
+ * @param type 数据类型
+ * @returns 可比较的值
+ */
+const normalizeSortValue = (value: unknown, type: SortType | undefined): string | number | null => {
+  if (value === null || value === void 0 || value === '') {
+    return null;
+  }
+  if (type === 'number') {
+    const num = Number(value);
+    return Number.isNaN(num) ? null : num;
+  }
+  if (type === 'date') {
+    const time = value instanceof Date
+      ? value.getTime()
+      : new Date(value as string | number).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  if (type === 'string') {
+    return String(value);
+  }
+  if (typeof value === 'number') {
+    return Number.isNaN(value) ? null : value;
+  }
+  if (value instanceof Date) {
+    const time = value.getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  return String(value);
+};
+
+/**
+ * 比较两个已转换的可比较值的先后顺序（升序）
+ * @param va 可比较值 A
+ * @param vb 可比较值 B
+ * @returns 比较结果，空值始终排在最后
+ */
+const compareNormalizedValue = (va: string | number | null, vb: string | number | null): number => {
+  if (va === null || vb === null) {
+    if (va === vb) {
+      return 0;
+    }
+    return va === null ? 1 : -1;
+  }
+  if (typeof va === 'number' && typeof vb === 'number') {
+    return va - vb;
+  }
+  return String(va).localeCompare(String(vb), void 0, { numeric: true });
+};
+
+/**
+ * 比较两个单元格数据的先后顺序（升序）
+ * @param a 数据 A
+ * @param b 数据 B
+ * @param type 数据类型，不填写时根据数据自动判断
+ * @returns 比较结果，空值始终排在最后
+ */
+export const compareSortValue = (a: unknown, b: unknown, type?: SortType): number =>
+  compareNormalizedValue(normalizeSortValue(a, type), normalizeSortValue(b, type));
+
+/**
+ * 获取列 Schema 中设置的默认排序
+ * @param columns 叶子列 Schema
+ * @returns 排序状态，未设置默认排序时返回 null
+ */
+export const getDefaultSorter = (columns: readonly Pick<DripTableColumnSchema, 'key' | 'sortable' | 'defaultSortOrder'>[]): DripTableSorter | null => {
+  const column = columns.find(c => c.sortable && c.defaultSortOrder);
+  return column?.defaultSortOrder
+    ? { key: column.key, order: column.defaultSortOrder }
+    : null;
+};
+
+/**
+ * 按照指定列对数据源进行前端排序
+ * @param dataSource 数据源
+ * @param column 排序列 Schema
+ * @param order 排序方向
+ * @returns 排序后的新数据源
+ */
+export const sortDataSource = <RecordType>(
+  dataSource: readonly RecordType[],
+  column: Pick<DripTableColumnSchema, 'dataIndex' | 'sortType'>,
+  order: DripTableSortOrder,
+): RecordType[] => {
+  const direction = order === 'descend' ? -1 : 1;
+  // 每行仅转换一次可比较值，避免在比较过程中重复转换
+  return dataSource
+    .map(record => ({ record, value: normalizeSortValue(indexValue(record, column.dataIndex), column.sortType) }))
+    .sort((a, b) => {
+      const result = compareNormalizedValue(a.value, b.value);
+      // 空值无论升降序都排在最后
+      if (a.value === null || b.value === null) {
+        return result;
+      }
+      return result * direction;
+    })
+    .map(item => item.record);
+};
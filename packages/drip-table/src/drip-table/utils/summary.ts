@@ -0,0 +1,78 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableColumnSchema, type DripTableSummaryColumnSchema } from '@/types';
+
+import { indexValue, stringify } from '.';
+
+/**
+ * 汇总聚合函数
+ * @param values 当前列数据
+ * @param records 参与汇总的数据行
+ * @returns 聚合结果
+ */
+export type DripTableAggregator<RecordType = unknown> = (values: unknown[], records: RecordType[]) => unknown;
+
+const isEmpty = (value: unknown) => value === null || value === void 0 || value === '';
+
+const toNumbers = (values: unknown[]) => values
+  .filter(v => !isEmpty(v))
+  .map(Number)
+  .filter(v => !Number.isNaN(v));
+
+/**
+ * 内置聚合函数
+ */
+export const builtInAggregators: Record<'sum' | 'avg' | 'min' | 'max' | 'count' | 'distinct', DripTableAggregator> = {
+  sum: values => toNumbers(values).reduce((sum, v) => sum + v, 0),
+  avg: (values) => {
+    const nums = toNumbers(values);
+    return nums.length > 0 ? nums.reduce((sum, v) => sum + v, 0) / nums.length : null;
+  },
+  min: (values) => {
+    const nums = toNumbers(values);
+    return nums.length > 0 ? nums.reduce((min, v) => (v < min ? v : min)) : null;
+  },
+  max: (values) => {
+    const nums = toNumbers(values);
+    return nums.length > 0 ? nums.reduce((max, v) => (v > max ? v : max)) : null;
+  },
+  count: values => values.filter(v => !isEmpty(v)).length,
+  distinct: values => new Set(values.filter(v => !isEmpty(v)).map(stringify)).size,
+};
+
+/**
+ * 计算汇总单元格展示文案（不含前后缀）
+ * @param records 参与汇总的数据行
+ * @param column 汇总列
+ * @param config 汇总单元格配置
+ * @param aggregators 自定义聚合函数
+ * @returns 汇总文案
+ */
+export const summarize = <RecordType>(
+  records: RecordType[],
+  column: Pick<DripTableColumnSchema, 'dataIndex'>,
+  config: DripTableSummaryColumnSchema,
+  aggregators?: Record<string, DripTableAggregator<RecordType>>,
+): string => {
+  if (config.text !== void 0) {
+    return config.text;
+  }
+  if (!config.aggregate) {
+    return '';
+  }
+  const aggregator = aggregators?.[config.aggregate] || builtInAggregators[config.aggregate as keyof typeof builtInAggregators];
+  if (!aggregator) {
+    return `Unknown aggregate: ${config.aggregate}`;
+  }
+  const result = aggregator(records.map(record => indexValue(record, column.dataIndex)), records);
+  if (typeof result === 'number' && config.precision !== void 0) {
+    return result.toFixed(config.precision);
+  }
+  return stringify(result);
+};
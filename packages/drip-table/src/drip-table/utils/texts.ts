@@ -0,0 +1,56 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableTexts } from '@/types';
+
+/**
+ * 界面文案默认值
+ */
+export const DEFAULT_TEXTS: Required<DripTableTexts> = {
+  errorTitle: '数据加载失败',
+  errorSubTitle: '{{message}}',
+  errorReload: '重新加载',
+  loadMoreLoading: '加载中…',
+  loadMoreRetry: '加载失败，点击重试',
+  loadMore: '加载更多',
+  loadMoreFinished: '没有更多了',
+  pasteOutOfRange: '超出表格范围',
+  pasteNotEditable: '该列不可编辑',
+  pasteRowEditing: '该行正在编辑',
+  pasteRowNotFound: '数据源中未找到该行',
+  pasteInvalidNumber: '不是有效的数字：{{text}}',
+  pasteInvalidSwitch: '无法识别的开关值：{{text}}',
+  pasteInvalidOption: '不在可选范围内：{{label}}',
+  expandRow: '展开行',
+  collapseRow: '收起行',
+  exportButton: '导出',
+  exportFailed: '导出失败',
+  moveColumnUp: '上移',
+  moveColumnDown: '下移',
+  selectionCount: '已选择 {{count}} 项',
+  selectAllPages: '选择全部 {{total}} 项',
+  selectionClear: '清空',
+  treeExpandAll: '展开全部',
+  treeCollapseAll: '收起全部',
+};
+
+/**
+ * 合并界面文案设置与默认值
+ * @param texts 界面文案设置
+ * @returns 完整的界面文案
+ */
+export const resolveTexts = (texts?: DripTableTexts): Required<DripTableTexts> => ({ ...DEFAULT_TEXTS, ...texts });
+
+/**
+ * 替换文案中的 {{变量名}}，未提供的变量保持原样
+ * @param text 文案
+ * @param params 变量
+ * @returns 替换后的文案
+ */
+export const formatText = (text: string, params: Record<string, string | number> = {}) =>
+  text.replace(/\{\{(\w+)\}\}/gu, (match, name: string) => (name in params ? String(params[name]) : match));
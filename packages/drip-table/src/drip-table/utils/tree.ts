@@ -0,0 +1,186 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableRecordTypeBase, type DripTableTreeSchema } from '@/types';
+
+const childrenKeyOf = (tree: DripTableTreeSchema) => tree.childrenKey ?? 'children';
+
+/**
+ * 生成树形数据：合并懒加载的子节点，懒加载模式下为存在子节点但尚未加载的行补充空的子节点列表以展示展开按钮
+ * @param dataSource 数据源
+ * @param tree 树形数据设置
+ * @param rowKey 行主键键名
+ * @param loadedChildren 懒加载的子节点，以父节点行主键为 key
+ * @returns 树形数据
+ */
+export const buildTreeData = <RecordType extends DripTableRecordTypeBase>(
+  dataSource: readonly RecordType[],
+  tree: DripTableTreeSchema,
+  rowKey: string,
+  loadedChildren: Record<string, DripTableRecordTypeBase[]>,
+): RecordType[] => dataSource.map((record) => {
+    const childrenKey = childrenKeyOf(tree);
+    const value = record[childrenKey];
+    const children = Array.isArray(value)
+      ? value as RecordType[]
+      : loadedChildren[String(record[rowKey])] as RecordType[] | undefined
+        ?? (tree.lazy && record[tree.hasChildrenKey ?? 'hasChildren'] ? [] : void 0);
+    return children
+      ? { ...record, [childrenKey]: buildTreeData(children, tree, rowKey, loadedChildren) }
+      : record;
+  });
+
+/**
+ * 判断展开行时是否需要懒加载子节点
+ * @param record 树形数据中的行数据
+ * @param tree 树形数据设置
+ * @param rowKey 行主键键名
+ * @param loadedChildren 懒加载的子节点
+ * @returns 是否需要加载
+ */
+export const shouldLoadTreeChildren = (
+  record: DripTableRecordTypeBase,
+  tree: DripTableTreeSchema,
+  rowKey: string,
+  loadedChildren: Record<string, DripTableRecordTypeBase[]>,
+) => {
+  const children = record[childrenKeyOf(tree)];
+  return !!tree.lazy
+    && !!record[tree.hasChildrenKey ?? 'hasChildren']
+    && !loadedChildren[String(record[rowKey])]
+    && !(Array.isArray(children) && children.length > 0);
+};
+
+/**
+ * 获取树形数据中所有存在子节点的行主键，用于展开全部；尚未加载子节点的懒加载行除外
+ * @param dataSource 树形数据
+ * @param tree 树形数据设置
+ * @param rowKey 行主键键名
+ * @returns 行主键
+ */
+export const getExpandableTreeRowKeys = (
+  dataSource: readonly DripTableRecordTypeBase[],
+  tree: DripTableTreeSchema,
+  rowKey: string,
+): React.Key[] => dataSource.flatMap((record) => {
+  const children = record[childrenKeyOf(tree)];
+  return Array.isArray(children) && children.length > 0
+    ? [record[rowKey] as React.Key, ...getExpandableTreeRowKeys(children as DripTableRecordTypeBase[], tree, rowKey)]
+    : [];
+});
+
+/**
+ * 获取树形数据中所有行的行主键
+ * @param dataSource 树形数据
+ * @param tree 树形数据设置
+ * @param rowKey 行主键键名
+ * @returns 行主键
+ */
+export const getTreeRowKeys = (
+  dataSource: readonly DripTableRecordTypeBase[],
+  tree: DripTableTreeSchema,
+  rowKey: string,
+): React.Key[] => dataSource.flatMap((record) => {
+  const children = record[childrenKeyOf(tree)];
+  return [
+    record[rowKey] as React.Key,
+    ...Array.isArray(children) ? getTreeRowKeys(children as DripTableRecordTypeBase[], tree, rowKey) : [],
+  ];
+});
+
+/**
+ * 按照展开状态获取树形数据中当前展示的所有行，子节点紧随父节点之后
+ * @param dataSource 树形数据
+ * @param tree 树形数据设置
+ * @param rowKey 行主键键名
+ * @param expandedRowKeys 展开的行主键
+ * @returns 当前展示的行
+ */
+export const flattenVisibleTreeRows = <RecordType extends DripTableRecordTypeBase>(
+  dataSource: readonly RecordType[],
+  tree: DripTableTreeSchema,
+  rowKey: string,
+  expandedRowKeys: readonly React.Key[],
+): RecordType[] => dataSource.flatMap((record) => {
+    const children = record[childrenKeyOf(tree)];
+    return Array.isArray(children) && expandedRowKeys.includes(record[rowKey] as React.Key)
+      ? [record, ...flattenVisibleTreeRows(children as RecordType[], tree, rowKey, expandedRowKeys)]
+      : [record];
+  });
+
+/**
+ * 按行主键在树形数据中查找行，包括懒加载的子节点
+ * @param dataSource 数据源
+ * @param tree 树形数据设置，未设置时仅查找顶层数据
+ * @param rowKey 行主键键名
+ * @param key 行主键
+ * @param loadedChildren 懒加载的子节点，以父节点行主键为 key
+ * @returns 行数据，未找到时返回 undefined
+ */
+export const findTreeRecord = <RecordType extends DripTableRecordTypeBase>(
+  dataSource: readonly RecordType[],
+  tree: DripTableTreeSchema | undefined,
+  rowKey: string,
+  key: string,
+  loadedChildren: Record<string, DripTableRecordTypeBase[]> = {},
+): RecordType | undefined => {
+  const record = dataSource.find((item, i) => String(typeof item[rowKey] === 'undefined' ? i : item[rowKey]) === key);
+  if (record || !tree) {
+    return record;
+  }
+  let found: RecordType | undefined;
+  dataSource.some((item) => {
+    const value = item[childrenKeyOf(tree)];
+    const children = Array.isArray(value) ? value as RecordType[] : loadedChildren[String(item[rowKey])] as RecordType[] | undefined;
+    found = children ? findTreeRecord(children, tree, rowKey, key, loadedChildren) : void 0;
+    return !!found;
+  });
+  return found;
+};
+
+/**
+ * 按行主键更新树形数据中的行，沿查找路径复制父节点；位于懒加载子节点中的行，其子节点列表一并写入父节点
+ * @param dataSource 数据源
+ * @param tree 树形数据设置，未设置时仅查找顶层数据
+ * @param rowKey 行主键键名
+ * @param key 行主键
+ * @param update 行数据更新函数
+ * @param loadedChildren 懒加载的子节点，以父节点行主键为 key
+ * @returns 新的数据源，未找到行时返回 null
+ */
+export const updateTreeRecord = <RecordType extends DripTableRecordTypeBase>(
+  dataSource: readonly RecordType[],
+  tree: DripTableTreeSchema | undefined,
+  rowKey: string,
+  key: string,
+  update: (record: RecordType) => RecordType,
+  loadedChildren: Record<string, DripTableRecordTypeBase[]> = {},
+): RecordType[] | null => {
+  const index = dataSource.findIndex((item, i) => String(typeof item[rowKey] === 'undefined' ? i : item[rowKey]) === key);
+  if (index !== -1) {
+    const ds = [...dataSource];
+    ds[index] = update(ds[index]);
+    return ds;
+  }
+  if (!tree) {
+    return null;
+  }
+  const childrenKey = childrenKeyOf(tree);
+  let ds: RecordType[] | null = null;
+  dataSource.some((item, i) => {
+    const value = item[childrenKey];
+    const children = Array.isArray(value) ? value as RecordType[] : loadedChildren[String(item[rowKey])] as RecordType[] | undefined;
+    const updated = children ? updateTreeRecord(children, tree, rowKey, key, update, loadedChildren) : null;
+    if (updated) {
+      ds = [...dataSource];
+      ds[i] = { ...item, [childrenKey]: updated };
+    }
+    return !!updated;
+  });
+  return ds;
+};
@@ -0,0 +1,110 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+import { type DripTableValidationRule } from '@/types';
+
+/**
+ * 自定义校验函数
+ * @param value 待校验的值
+ * @param record 当前编辑行数据
+ * @param rule 当前校验规则，可通过 rule.params 读取参数
+ * @returns 校验失败提示文案，通过时返回空值；返回 Promise 时进行异步校验，Promise 被拒绝同样视为校验失败
+ */
+export type DripTableValidator<RecordType = unknown> = (
+  value: unknown,
+  record: RecordType,
+  rule: DripTableValidationRule,
+) => string | null | void | Promise<string | null | void>;
+
+const isEmpty = (value: unknown) => value === null || value === void 0 || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * 获取用于范围校验的数值：数字取自身，字符串、数组取长度
+ * @param value 待校验的值
+ * @returns 数值与提示单位，不支持范围校验时返回 null
+ */
+const sizeOf = (value: unknown): [number, string] | null => {
+  if (typeof value === 'number') {
+    return [value, ''];
+  }
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return [value.length, '长度'];
+  }
+  return null;
+};
+
+/**
+ * 校验内置规则条件
+ * @param value 待校验的值
+ * @param rule 校验规则
+ * @returns 校验失败提示文案，通过时返回 null
+ */
+const checkBuiltInRule = (value: unknown, rule: DripTableValidationRule): string | null => {
+  if (isEmpty(value)) {
+    return rule.required ? rule.message ?? '该项为必填项' : null;
+  }
+  const size = sizeOf(value);
+  if (size && rule.min !== void 0 && size[0] < rule.min) {
+    return rule.message ?? `${size[1]}不能小于 ${rule.min}`;
+  }
+  if (size && rule.max !== void 0 && size[0] > rule.max) {
+    return rule.message ?? `${size[1]}不能大于 ${rule.max}`;
+  }
+  if (rule.pattern !== void 0) {
+    let regexp: RegExp;
+    try {
+      regexp = new RegExp(rule.pattern, 'u');
+    } catch {
+      return `Invalid pattern: ${rule.pattern}`;
+    }
+    if (!regexp.test(String(value))) {
+      return rule.message ?? '格式不正确';
+    }
+  }
+  if (rule.enum && !rule.enum.includes(value as string | number | boolean | null)) {
+    return rule.message ?? '取值不在可选范围内';
+  }
+  return null;
+};
+
+/**
+ * 按顺序校验单元格编辑值，返回首个未通过规则的提示
+ * @param value 待校验的值
+ * @param record 当前编辑行数据
+ * @param rules 校验规则
+ * @param validators 自定义校验函数
+ * @returns 校验失败提示文案，全部通过时返回 null
+ */
+export const validateValue = <RecordType>(
+  value: unknown,
+  record: RecordType,
+  rules: readonly DripTableValidationRule[],
+  validators?: Record<string, DripTableValidator<RecordType>>,
+): Promise<string | null> => rules.reduce<Promise<string | null>>(async (previous, rule) => {
+  // 规则按顺序校验，前一条未通过时不再执行后续（可能为异步请求的）校验
+  const previousMessage = await previous;
+  if (previousMessage) {
+    return previousMessage;
+  }
+  const message = checkBuiltInRule(value, rule);
+  if (message) {
+    return message;
+  }
+  if (!rule.validator) {
+    return null;
+  }
+  const validator = validators?.[rule.validator];
+  if (!validator) {
+    return `Unknown validator: ${rule.validator}`;
+  }
+  try {
+    return await validator(value, record, rule) || null;
+  } catch (error) {
+    return rule.message ?? (error instanceof Error ? error.message : String(error));
+  }
+}, Promise.resolve(null));
@@ -0,0 +1,194 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * 计算 CRC32 校验值
+ * @param data 数据
+ * @returns 校验值
+ */
+const crc32 = (data: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * 以不压缩（STORE）方式打包 ZIP 文件
+ * @param files 文件路径与内容
+ * @returns ZIP 文件内容
+ */
+const zip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach((file) => {
+    const name = encoder.encode(file.name);
+    const content = encoder.encode(file.content);
+    const crc = crc32(content);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034B50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, 0, true);
+    lv.setUint16(12, 0x21, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, content.length, true);
+    lv.setUint32(22, content.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true);
+    local.set(name, 30);
+    localParts.push(local, content);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014B50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, 0, true);
+    cv.setUint16(14, 0x21, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, content.length, true);
+    cv.setUint32(24, content.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+    centralParts.push(central);
+
+    offset += local.length + content.length;
+  });
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054B50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    result.set(part, position);
+    position += part.length;
+  });
+  return result;
+};
+
+/**
+ * 判断是否为 XML 1.0 不允许出现的控制字符
+ * @param char 字符
+ * @returns 是否不允许出现
+ */
+const isXMLInvalidChar = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code <= 0x08 || code === 0x0B || code === 0x0C || (code >= 0x0E && code <= 0x1F);
+};
+
+const escapeXML = (text: string) => [...text]
+  .filter(char => !isXMLInvalidChar(char))
+  .join('')
+  .replace(/&/gu, '&amp;')
+  .replace(/</gu, '&lt;')
+  .replace(/>/gu, '&gt;')
+  .replace(/"/gu, '&quot;');
+
+/**
+ * 根据列序号生成单元格列名，如 0 => A、26 => AA
+ * @param index 列序号
+ * @returns 列名
+ */
+const columnName = (index: number) => {
+  let name = '';
+  let i = index + 1;
+  while (i > 0) {
+    const remainder = (i - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    i = Math.floor((i - 1) / 26);
+  }
+  return name;
+};
+
+/**
+ * 生成仅含一个工作表的 XLSX 文件
+ * @param rows 表格内容，首行为表头
+ * @param sheetName 工作表名称
+ * @returns XLSX 文件内容
+ */
+export const toXLSX = (rows: string[][], sheetName = 'Sheet1'): Uint8Array => {
+  const sheetData = rows
+    .map((row, r) => {
+      const cells = row
+        .map((text, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (r > 0 && (/^-?(?:0|[1-9]\d{0,14})(?:\.\d+)?$/u).test(text)) {
+            return `<c r="${ref}"><v>${text}</v></c>`;
+          }
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(text)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return zip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+        + `<sheets><sheet name="${escapeXML(sheetName.replace(/[[\]:*?/\\]/gu, '_').slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+        + `<sheetData>${sheetData}</sheetData>`
+        + '</worksheet>',
+    },
+  ]);
+};
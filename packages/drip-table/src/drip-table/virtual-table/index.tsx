@@ -1,13 +1,14 @@
+import classNames from 'classnames';
 import ResizeObserver from 'rc-resize-observer';
-import React, { useEffect, useRef, useState } from 'react';
-import { VariableSizeGrid } from 'react-window';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { GridChildComponentProps, VariableSizeGrid } from 'react-window';
 
-import { DripTableDriver, DripTableRecordTypeBase } from '@/types';
-import { DripTableDriverTableProps } from '@/types/driver/table';
+import { DripTableDriver, DripTableRecordTypeBase, DripTableTexts } from '@/types';
+import { DripTableDriverTableColumn, DripTableDriverTableProps } from '@/types/driver/table';
 
 import { indexValue } from '../utils';
 
-import styles from './index.module.css';
+import styles from './index.module.less';
 
 // 根据size来控制行高
 const rowHeightMap = {
@@ -16,21 +17,154 @@ const rowHeightMap = {
   large: 88,
 };
 
-function VirtualTable<RecordType extends DripTableRecordTypeBase>(props: { driver: DripTableDriver } & DripTableDriverTableProps<RecordType>) {
-  const { columns = [], scroll, size, driver } = props;
+// 选择列宽度，表头选择列与网格选择列保持一致
+const SELECTION_COLUMN_WIDTH = 48;
+
+// 展开列宽度，表头展开列与网格展开列保持一致
+const EXPAND_COLUMN_WIDTH = 48;
+
+// 单元格上下内边距与下边框高度之和
+const CELL_VERTICAL_SPACING = 25;
+
+/**
+ * 虚拟列表项：数据行或者数据行下方的展开行
+ */
+interface VirtualTableItem<RecordType extends DripTableRecordTypeBase> {
+  type: 'row' | 'expanded';
+  record: RecordType;
+  /**
+   * 数据行在当前渲染数据中的序号
+   */
+  index: number;
+}
+
+interface ExpandedRowData {
+  items: VirtualTableItem<DripTableRecordTypeBase>[];
+  render: (item: VirtualTableItem<DripTableRecordTypeBase>) => React.ReactNode;
+  onResize: (item: VirtualTableItem<DripTableRecordTypeBase>, rowIndex: number, height: number) => void;
+}
+
+/**
+ * 展开行渲染组件，定义在模块级别以保证组件类型稳定，避免表格重新渲染时展开行内容（如子表格）被重新挂载
+ */
+const ExpandedRow = ({ rowIndex, style, data }: GridChildComponentProps<ExpandedRowData>) => {
+  const item = data.items[rowIndex];
+  if (item?.type !== 'expanded') {
+    return null;
+  }
+  return (
+    <div style={style}>
+      <ResizeObserver onResize={({ offsetHeight }) => { data.onResize(item, rowIndex, offsetHeight); }}>
+        <div className={styles['virtual-table-expanded-row']}>
+          { data.render(item) }
+        </div>
+      </ResizeObserver>
+    </div>
+  );
+};
+
+/**
+ * 展开多级表头，获取所有叶子列
+ * @param columns 表格列配置
+ * @returns 叶子列
+ */
+const flattenTableColumns = <RecordType extends DripTableRecordTypeBase>(columns: DripTableDriverTableColumn<RecordType>[]): DripTableDriverTableColumn<RecordType>[] =>
+  columns.flatMap(column => (column.children ? flattenTableColumns(column.children) : [column]));
+
+const isFixedLeft = (column: DripTableDriverTableColumn<never>) => column.fixed === 'left' || column.fixed === true;
+
+const isFixedRight = (column: DripTableDriverTableColumn<never>) => column.fixed === 'right';
+
+const widthOf = (column: DripTableDriverTableColumn<never>) => (typeof column.width === 'string' ? Number.parseFloat(column.width) : column.width) || 0;
+
+// 表头虚拟化时代替可视范围外列的占位列主键前缀
+const HEADER_SPACER_KEY = '__drip-table-header-spacer';
+
+/**
+ * 虚拟化表头：可视范围外的列按连续区间合并为一个占位列，表头总宽度与横向滚动位置保持不变
+ * @param columns 表格列配置
+ * @param visibleLeaves 需要渲染的叶子列
+ * @returns 表头列配置
+ */
+const virtualizeHeaderColumns = <ColumnType extends DripTableDriverTableColumn<never>>(columns: ColumnType[], visibleLeaves: Set<ColumnType>): ColumnType[] => {
+  const headerColumns: ColumnType[] = [];
+  columns.forEach((column) => {
+    const leaves = flattenTableColumns([column]) as ColumnType[];
+    if (leaves.some(leaf => visibleLeaves.has(leaf))) {
+      headerColumns.push(column.children
+        ? { ...column, children: virtualizeHeaderColumns(column.children as ColumnType[], visibleLeaves) }
+        : column);
+      return;
+    }
+    const width = leaves.reduce((summary, leaf) => summary + widthOf(leaf), 0);
+    const last = headerColumns[headerColumns.length - 1];
+    if (last && String(last.key).startsWith(HEADER_SPACER_KEY)) {
+      headerColumns[headerColumns.length - 1] = { ...last, width: widthOf(last) + width };
+    } else {
+      headerColumns.push({ key: `${HEADER_SPACER_KEY}-${String(column.key)}`, width } as ColumnType);
+    }
+  });
+  return headerColumns;
+};
+
+/**
+ * 统计开头连续满足条件的列数
+ * @param columns 表格列配置
+ * @param predicate 判断条件
+ * @returns 列数
+ */
+const countLeading = <RecordType extends DripTableRecordTypeBase>(columns: DripTableDriverTableColumn<RecordType>[], predicate: (column: DripTableDriverTableColumn<RecordType>) => boolean) => {
+  const index = columns.findIndex(column => !predicate(column));
+  return index === -1 ? columns.length : index;
+};
+
+export interface VirtualTableProps<RecordType extends DripTableRecordTypeBase> extends DripTableDriverTableProps<RecordType> {
+  driver: DripTableDriver;
+  /**
+   * 滚动到指定单元格，token 改变时触发滚动
+   */
+  scrollToCell?: { rowIndex: number; columnIndex: number; token: number };
+  /**
+   * 未测量行的预估行高，默认为表格大小对应的最小行高
+   */
+  estimatedRowHeight?: number;
+  /**
+   * 界面文案
+   */
+  texts: Required<Pick<DripTableTexts, 'expandRow' | 'collapseRow'>>;
+}
+
+function VirtualTable<RecordType extends DripTableRecordTypeBase>({ scrollToCell, estimatedRowHeight: estimatedRowHeightProp, texts, ...props }: VirtualTableProps<RecordType>) {
+  const { columns = [], scroll, size, driver, rowSelection } = props;
+  // 仅支持展开行，不支持树形数据
+  const expandable = props.expandable?.expandedRowRender ? props.expandable : void 0;
   const Table = driver.components.Table;
+  const Checkbox = driver.components.Checkbox;
+  const Radio = driver.components.Radio;
   const [tableWidth, setTableWidth] = useState(0);
 
-  const rowHeight = rowHeightMap[size || 'middle'] || rowHeightMap.middle;
+  const minRowHeight = rowHeightMap[size || 'middle'] || rowHeightMap.middle;
+  const estimatedRowHeight = estimatedRowHeightProp ?? minRowHeight;
 
   // 减去已经设定的宽度，剩下的宽度均分
-  const initWidthColumn = columns.filter(c => c.width && c.width !== 'undefined');
-  const widthColumnCount = columns.length - initWidthColumn.length;
-  const initWidth = initWidthColumn.reduce((summary, c) => summary + ((typeof c.width === 'string' ? Number.parseFloat(c.width) : c.width) || 0), 0);
-  const restWidth = tableWidth - initWidth;
+  const leafColumns = flattenTableColumns(columns);
+  const initWidthColumn = leafColumns.filter(c => c.width && c.width !== 'undefined');
+  const widthColumnCount = leafColumns.length - initWidthColumn.length;
+  const initWidth = initWidthColumn.reduce((summary, c) => summary + widthOf(c), 0);
+  const restWidth = tableWidth - initWidth - (rowSelection ? SELECTION_COLUMN_WIDTH : 0) - (expandable ? EXPAND_COLUMN_WIDTH : 0);
   // 如果当设定宽度大于table宽度，则默认剩余平均宽度为100
   const restWidthAvg = restWidth > 0 ? Math.floor(restWidth / widthColumnCount) : 100;
-  const mergedColumns = columns.map((column) => {
+  const mergeColumnWidth = (column: DripTableDriverTableColumn<RecordType>, fixed?: DripTableDriverTableColumn<RecordType>['fixed']): DripTableDriverTableColumn<RecordType> => {
+    // 列分组的固定设置作用于未单独设置固定的子列，与表头保持一致
+    if (fixed !== void 0 && column.fixed === void 0) {
+      return mergeColumnWidth({ ...column, fixed });
+    }
+    if (column.children) {
+      return {
+        ...column,
+        children: column.children.map(child => mergeColumnWidth(child, column.fixed)),
+      };
+    }
     if (column.width && column.width !== 'undefined') {
       if (typeof column.width === 'string') {
         column.width = Number(column.width.replace('px', ''));
@@ -42,13 +176,131 @@ function VirtualTable<RecordType extends DripTableRecordTypeBase>(props: { drive
       ...column,
       width: restWidthAvg,
     };
+  };
+  const mergedColumns = columns.map(column => mergeColumnWidth(column));
+  const mergedLeafColumns = flattenTableColumns(mergedColumns);
+
+  // 主网格当前渲染的叶子列序号范围，用于虚拟化表头
+  const [visibleLeafRange, setVisibleLeafRange] = useState<[number, number] | null>(null);
+
+  const lastSelectIndexRef = useRef<number | null>(null);
+
+  /**
+   * 选中或取消选中行，按住 Shift 时作用于上次点击行到当前行之间的所有可选择行
+   * @param data 当前渲染的数据
+   * @param index 点击行的行号
+   * @param checked 是否选中
+   * @param shiftKey 是否按住 Shift
+   */
+  const onSelect = (data: readonly RecordType[], index: number, checked: boolean, shiftKey: boolean) => {
+    if (!rowSelection) {
+      return;
+    }
+    const rowKey = props.rowKey ?? 'key';
+    const selectedKeys = rowSelection.selectedRowKeys || [];
+    const lastIndex = lastSelectIndexRef.current;
+    const range = shiftKey && lastIndex !== null && lastIndex < data.length
+      ? data.slice(Math.min(lastIndex, index), Math.max(lastIndex, index) + 1)
+      : [data[index]];
+    const rangeKeys = range
+      .filter(record => !rowSelection.getCheckboxProps?.(record).disabled)
+      .map(record => record[rowKey] as React.Key);
+    const keys = checked
+      ? [...selectedKeys, ...rangeKeys.filter(key => !selectedKeys.includes(key))]
+      : selectedKeys.filter(key => !rangeKeys.includes(key));
+    lastSelectIndexRef.current = index;
+    rowSelection.onChange?.(keys, data.filter(record => keys.includes(record[rowKey] as React.Key)));
+  };
+
+  const selectionColumn = (data: readonly RecordType[]): DripTableDriverTableColumn<RecordType> => ({
+    key: '__drip-table-selection',
+    width: SELECTION_COLUMN_WIDTH,
+    align: 'center',
+    // 存在左侧固定列时，选择列与表头一致固定在左侧
+    fixed: mergedLeafColumns.some(isFixedLeft) ? 'left' : void 0,
+    render: (_, record, index) => {
+      const key = record[props.rowKey ?? 'key'] as React.Key;
+      const checked = !!rowSelection?.selectedRowKeys?.includes(key);
+      const disabled = rowSelection?.getCheckboxProps?.(record).disabled;
+      if (rowSelection?.type === 'radio') {
+        return <Radio checked={checked} disabled={disabled} onChange={() => { rowSelection.onChange?.([key], [record]); }} />;
+      }
+      return (
+        <Checkbox
+          checked={checked}
+          disabled={disabled}
+          onChange={(e) => { onSelect(data, index, !!e.target.checked, e.nativeEvent.shiftKey); }}
+        />
+      );
+    },
   });
 
-  const fixedColumns = mergedColumns.filter(c => c.fixed);
-  const fixedColumnsWidth = fixedColumns.reduce((summary, c) => summary + ((typeof c.width === 'string' ? Number.parseFloat(c.width) : c.width) || 0), 0);
+  const rowKeyOf = (record: RecordType) => record[props.rowKey ?? 'key'] as React.Key;
+
+  const [innerExpandedRowKeys, setInnerExpandedRowKeys] = useState<readonly React.Key[]>(() => {
+    if (expandable?.defaultExpandedRowKeys) {
+      return expandable.defaultExpandedRowKeys;
+    }
+    if (expandable?.defaultExpandAllRows) {
+      return (props.dataSource || [])
+        .filter(record => expandable.rowExpandable?.(record) !== false)
+        .map(rowKeyOf);
+    }
+    return [];
+  });
+  const expandedRowKeys = expandable?.expandedRowKeys ?? innerExpandedRowKeys;
+
+  // 当前渲染的列表项以及首个可见项序号，用于展开收起时恢复滚动位置
+  const itemsRef = useRef<VirtualTableItem<RecordType>[]>([]);
+  const visibleRowStartIndexRef = useRef(0);
+  const scrollAnchorRef = useRef<{ key: React.Key; delta: number } | null>(null);
+
+  const expandColumn: DripTableDriverTableColumn<RecordType> = {
+    key: '__drip-table-expand',
+    width: EXPAND_COLUMN_WIDTH,
+    align: 'center',
+    fixed: mergedLeafColumns.some(isFixedLeft) ? 'left' : void 0,
+    render: (_, record) => {
+      if (expandable?.rowExpandable?.(record) === false) {
+        return null;
+      }
+      const expanded = expandedRowKeys.includes(rowKeyOf(record));
+      return (
+        <button
+          type="button"
+          className={classNames(styles['virtual-table-expand-icon'], { [styles['virtual-table-expand-icon-collapsed']]: !expanded })}
+          aria-label={expanded ? texts.collapseRow : texts.expandRow}
+          onClick={(e) => {
+            e.stopPropagation();
+            onExpand(record);
+          }}
+        />
+      );
+    },
+  };
+
+  const gridColumnsOf = (data: readonly RecordType[]) => [
+    ...rowSelection ? [selectionColumn(data)] : [],
+    ...expandable ? [expandColumn] : [],
+    ...mergedLeafColumns,
+  ];
+  // 固定列位于两端：左侧固定列为开头连续的固定列，右侧固定列为末尾连续的固定列，其余列随网格横向虚拟滚动
+  const templateColumns = gridColumnsOf([]);
+  const leftFixedCount = countLeading(templateColumns, isFixedLeft);
+  const rightFixedCount = Math.min(countLeading([...templateColumns].reverse(), isFixedRight), templateColumns.length - leftFixedCount);
+  // 选择列、展开列数量，网格列序号减去该值即为叶子列序号
+  const prefixColumnCount = templateColumns.length - mergedLeafColumns.length;
+  // 主网格不渲染固定列，两端固定列各以一个占位列代替，横向滚动范围与表头保持一致
+  const middleStart = leftFixedCount;
+  const middleEnd = templateColumns.length - rightFixedCount;
+  const leadingSpacerCount = leftFixedCount > 0 ? 1 : 0;
 
   const gridRef = useRef<VariableSizeGrid>(null);
-  const fixedGridRef = useRef<VariableSizeGrid>(null);
+  const leftGridRef = useRef<VariableSizeGrid>(null);
+  const rightGridRef = useRef<VariableSizeGrid>(null);
+  const expandedGridRef = useRef<VariableSizeGrid>(null);
+  const gridRefs = [gridRef, leftGridRef, rightGridRef, expandedGridRef];
+  const scrollOffsetRef = useRef({ scrollLeft: 0, scrollTop: 0 });
 
   const resetVirtualGrid = () => {
     gridRef.current?.resetAfterIndices({
@@ -60,79 +312,359 @@ function VirtualTable<RecordType extends DripTableRecordTypeBase>(props: { drive
 
   useEffect(() => resetVirtualGrid, [tableWidth]);
 
+  // 以行主键缓存已测量的单元格内容高度，行高取该行最高的单元格
+  const cellHeightsRef = useRef(new Map<React.Key, Map<number, number>>());
+  const contentHeightsRef = useRef(new Map<React.Key, number>());
+  const expandedHeightsRef = useRef(new Map<React.Key, number>());
+  const resetFrameRef = useRef(0);
+  const resetRowIndexRef = useRef<number | null>(null);
+
+  const getItemHeight = (item: VirtualTableItem<RecordType>) => {
+    const key = rowKeyOf(item.record);
+    if (item.type === 'expanded') {
+      return expandedHeightsRef.current.get(key) ?? estimatedRowHeight;
+    }
+    const contentHeight = contentHeightsRef.current.get(key);
+    return contentHeight === void 0
+      ? estimatedRowHeight
+      : Math.max(minRowHeight, contentHeight + CELL_VERTICAL_SPACING);
+  };
+
+  /**
+   * 生成列表项：展开的数据行下方插入展开行
+   * @param data 当前渲染的数据
+   * @returns 列表项
+   */
+  const itemsOf = (data: readonly RecordType[]) => data.flatMap((record, index): VirtualTableItem<RecordType>[] => (
+    expandable && expandedRowKeys.includes(rowKeyOf(record))
+      ? [{ type: 'row', record, index }, { type: 'expanded', record, index }]
+      : [{ type: 'row', record, index }]
+  ));
+
+  const itemKeyOf = (item: VirtualTableItem<RecordType>) => `${item.type}:${rowKeyOf(item.record)}`;
+
+  const offsetOf = (items: VirtualTableItem<RecordType>[], index: number) => items
+    .slice(0, index)
+    .reduce((summary, item) => summary + getItemHeight(item), 0);
+
+  /**
+   * 展开或收起数据行，记录首个可见数据行的位置用于恢复滚动位置
+   * @param record 行数据
+   */
+  const onExpand = (record: RecordType) => {
+    const key = rowKeyOf(record);
+    const expanded = !expandedRowKeys.includes(key);
+    const keys = expanded
+      ? [...expandedRowKeys, key]
+      : expandedRowKeys.filter(k => k !== key);
+    const items = itemsRef.current;
+    // 首个可见项为展开行时以其所属数据行作为锚点
+    const anchorIndex = items[visibleRowStartIndexRef.current]?.type === 'expanded'
+      ? visibleRowStartIndexRef.current - 1
+      : visibleRowStartIndexRef.current;
+    const anchor = items[anchorIndex];
+    scrollAnchorRef.current = anchor
+      ? { key: rowKeyOf(anchor.record), delta: scrollOffsetRef.current.scrollTop - offsetOf(items, anchorIndex) }
+      : null;
+    if (!expandable?.expandedRowKeys) {
+      setInnerExpandedRowKeys(keys);
+    }
+    expandable?.onExpand?.(expanded, record);
+    expandable?.onExpandedRowsChange?.(keys);
+  };
+
+  // 展开行变化后同步重新计算行高，并保持锚点数据行在视口中的位置不变
+  useLayoutEffect(() => {
+    gridRefs.forEach((grid) => {
+      grid.current?.resetAfterIndices({ columnIndex: 0, rowIndex: 0, shouldForceUpdate: true });
+    });
+    const anchor = scrollAnchorRef.current;
+    scrollAnchorRef.current = null;
+    if (!anchor) {
+      return;
+    }
+    const items = itemsRef.current;
+    const index = items.findIndex(item => item.type === 'row' && rowKeyOf(item.record) === anchor.key);
+    if (index !== -1) {
+      gridRef.current?.scrollTo({ scrollTop: Math.max(0, offsetOf(items, index) + anchor.delta) });
+    }
+  }, [expandedRowKeys]);
+
+  /**
+   * 从指定行开始重新计算网格行高，同一帧内的多次调用合并执行
+   * @param rowIndex 行号
+   */
+  const scheduleResetRows = (rowIndex: number) => {
+    resetRowIndexRef.current = Math.min(resetRowIndexRef.current ?? rowIndex, rowIndex);
+    if (resetFrameRef.current) {
+      return;
+    }
+    resetFrameRef.current = window.requestAnimationFrame(() => {
+      const index = resetRowIndexRef.current ?? 0;
+      resetFrameRef.current = 0;
+      resetRowIndexRef.current = null;
+      gridRefs.forEach((grid) => {
+        grid.current?.resetAfterIndices({ columnIndex: 0, rowIndex: index, shouldForceUpdate: true });
+      });
+    });
+  };
+
+  useEffect(() => () => { window.cancelAnimationFrame(resetFrameRef.current); }, []);
+
+  // 数据或行高基准变化后重新计算所有行
+  useEffect(() => { scheduleResetRows(0); }, [props.dataSource, minRowHeight, estimatedRowHeight]);
+
+  /**
+   * 单元格内容尺寸变化时更新行高缓存
+   * @param record 行数据
+   * @param rowIndex 行号
+   * @param columnIndex 列号
+   * @param height 单元格内容高度
+   */
+  const onCellResize = (record: RecordType, rowIndex: number, columnIndex: number, height: number) => {
+    const key = rowKeyOf(record);
+    const cellHeights = cellHeightsRef.current.get(key) ?? new Map<number, number>();
+    cellHeights.set(columnIndex, Math.ceil(height));
+    cellHeightsRef.current.set(key, cellHeights);
+    const contentHeight = Math.max(...cellHeights.values());
+    if (contentHeightsRef.current.get(key) !== contentHeight) {
+      contentHeightsRef.current.set(key, contentHeight);
+      scheduleResetRows(rowIndex);
+    }
+  };
+
+  /**
+   * 展开行内容尺寸变化时更新展开行高度缓存
+   * @param item 展开行
+   * @param rowIndex 列表项序号
+   * @param height 展开行高度
+   */
+  const onExpandedRowResize = (item: VirtualTableItem<RecordType>, rowIndex: number, height: number) => {
+    const key = rowKeyOf(item.record);
+    if (expandedHeightsRef.current.get(key) !== Math.ceil(height)) {
+      expandedHeightsRef.current.set(key, Math.ceil(height));
+      scheduleResetRows(rowIndex);
+    }
+  };
+
+  // 用户拖拽调整列宽后重新计算网格
+  const columnWidthsKey = mergedLeafColumns.map(c => c.width).join(',');
+  useEffect(() => {
+    resetVirtualGrid();
+    [leftGridRef, rightGridRef, expandedGridRef].forEach((grid) => {
+      grid.current?.resetAfterIndices({
+        columnIndex: 0,
+        rowIndex: 0,
+        shouldForceUpdate: true,
+      });
+    });
+  }, [columnWidthsKey]);
+
+  // 键盘导航移动焦点时保持焦点单元格可见，固定列始终可见，仅需纵向滚动
+  useEffect(() => {
+    if (!scrollToCell) {
+      return;
+    }
+    const rowIndex = itemsRef.current.findIndex(item => item.type === 'row' && item.index === scrollToCell.rowIndex);
+    const columnIndex = scrollToCell.columnIndex + prefixColumnCount;
+    const fixed = columnIndex < middleStart || columnIndex >= middleEnd;
+    gridRef.current?.scrollToItem({ rowIndex: Math.max(rowIndex, 0), columnIndex: fixed ? void 0 : columnIndex - middleStart + leadingSpacerCount, align: 'auto' });
+  }, [scrollToCell?.token]);
+
   const renderVirtualList: NonNullable<typeof props['components']>['body'] = (rawData, { scrollbarSize, ref, onScroll }) => {
-    const totalHeight = rawData.length * rowHeight;
+    const items = itemsOf(rawData);
+    itemsRef.current = items;
+    const totalHeight = items.reduce((summary, item) => summary + getItemHeight(item), 0);
+    const gridColumns = gridColumnsOf(rawData);
+    const scrollY = (typeof scroll?.y === 'string' ? Number.parseFloat(scroll?.y) : scroll?.y) || 0;
+
+    const columnWidth = (index: number) => {
+      const width = widthOf(gridColumns[index]);
+      return totalHeight > scrollY && index === gridColumns.length - 1
+        ? width - scrollbarSize - 1
+        : width;
+    };
+    const sumColumnWidth = (from: number, to: number) => {
+      let width = 0;
+      for (let index = from; index < to; index++) {
+        width += columnWidth(index);
+      }
+      return width;
+    };
+    const leftFixedWidth = sumColumnWidth(0, middleStart);
+    const rightFixedWidth = sumColumnWidth(middleEnd, gridColumns.length);
+    const mainColumnCount = leadingSpacerCount + middleEnd - middleStart + (rightFixedCount > 0 ? 1 : 0);
+    /**
+     * 主网格列号转换为所有列中的序号
+     * @param mainColumnIndex 主网格列号
+     * @returns 所有列中的序号，两端占位列返回 -1
+     */
+    const columnIndexOfMain = (mainColumnIndex: number) => {
+      const index = mainColumnIndex - leadingSpacerCount + middleStart;
+      return index >= middleStart && index < middleEnd ? index : -1;
+    };
+    const mainColumnWidth = (mainColumnIndex: number) => {
+      const index = columnIndexOfMain(mainColumnIndex);
+      if (index !== -1) {
+        return columnWidth(index);
+      }
+      return mainColumnIndex === 0 && leadingSpacerCount > 0 ? leftFixedWidth : rightFixedWidth;
+    };
+    // 横向滚动条占据网格底部，固定列网格高度需一并扣除以保持行对齐
+    const fixedGridHeight = sumColumnWidth(0, gridColumns.length) > tableWidth ? scrollY - scrollbarSize : scrollY;
+    const expandedRowWidth = totalHeight > scrollY ? tableWidth - scrollbarSize : tableWidth;
+
+    const forwardWheel = (e: React.WheelEvent) => {
+      gridRef.current?.scrollTo({
+        scrollLeft: scrollOffsetRef.current.scrollLeft + e.deltaX,
+        scrollTop: scrollOffsetRef.current.scrollTop + e.deltaY,
+      });
+    };
 
-    const renderCell = ({ columnIndex, rowIndex, style }: { columnIndex: number; rowIndex: number; style: React.CSSProperties }) => {
-      const columnItem = mergedColumns[columnIndex];
-      const dataItem = rawData[rowIndex];
+    /**
+     * 生成单元格渲染函数
+     * @param columnIndexOf 网格列号转换为所有列中的序号，返回 -1 时为占位列
+     * @returns 单元格渲染函数
+     */
+    const cellRenderer = (columnIndexOf: (gridColumnIndex: number) => number) => ({ columnIndex: gridColumnIndex, rowIndex, style }: { columnIndex: number; rowIndex: number; style: React.CSSProperties }) => {
+      const columnIndex = columnIndexOf(gridColumnIndex);
+      // 占位列区域由固定列网格覆盖，不渲染内容
+      if (columnIndex === -1) {
+        return null;
+      }
+      const columnItem = gridColumns[columnIndex];
+      const { type, record: dataItem, index } = items[rowIndex];
+      // 展开行内容由覆盖在网格上方的展开行网格渲染，此处仅占位
+      if (type === 'expanded') {
+        return <div className={styles['virtual-table-expanded-cell']} style={style} />;
+      }
       const value = columnItem.dataIndex ? indexValue(dataItem, columnItem.dataIndex) : dataItem;
       return (
         <div className={styles['virtual-table-cell']} style={style}>
-          {
-            columnItem.render
-              ? columnItem.render(value, dataItem, rowIndex)
-              : String(value)
-          }
+          <ResizeObserver onResize={({ offsetHeight }) => { onCellResize(dataItem, rowIndex, columnIndex, offsetHeight); }}>
+            <div>
+              {
+                columnItem.render
+                  ? columnItem.render(value, dataItem, index)
+                  : String(value)
+              }
+            </div>
+          </ResizeObserver>
+        </div>
+      );
+    };
+
+    /**
+     * 渲染覆盖在主网格两侧的固定列网格，固定列网格不可滚动，滚轮事件转发至主网格
+     * @param side 固定位置
+     * @param offset 固定列网格首列在所有列中的序号
+     * @param count 固定列数量
+     * @returns 固定列网格
+     */
+    const renderFixedGrid = (side: 'left' | 'right', offset: number, count: number) => {
+      const width = sumColumnWidth(offset, offset + count);
+      // 暂时用盖住的方式来展示，背景色也强制白色，层级999应该暂时满足了
+      return (
+        <div
+          style={{ position: 'absolute', top: 0, [side]: side === 'right' && totalHeight > scrollY ? scrollbarSize : 0, zIndex: 999, width, background: '#fff' }}
+          onWheel={forwardWheel}
+        >
+          <VariableSizeGrid
+            ref={side === 'left' ? leftGridRef : rightGridRef}
+            style={{ overflow: 'hidden' }}
+            className="virtual-grid"
+            columnCount={count}
+            columnWidth={(index: number) => columnWidth(index + offset)}
+            height={fixedGridHeight}
+            rowCount={items.length}
+            rowHeight={index => getItemHeight(items[index])}
+            estimatedRowHeight={estimatedRowHeight}
+            itemKey={({ columnIndex, rowIndex }) => `${itemKeyOf(items[rowIndex])}:${columnIndex}`}
+            initialScrollTop={scrollOffsetRef.current.scrollTop}
+            width={width}
+          >
+            { cellRenderer(index => index + offset) }
+          </VariableSizeGrid>
         </div>
       );
     };
 
-    const scrollY = (typeof scroll?.y === 'string' ? Number.parseFloat(scroll?.y) : scroll?.y) || 0;
-    // 暂时用盖住的方式来展示，背景色也强制白色，层级999应该暂时满足了
     return (
       <div style={{ position: 'relative' }}>
-        {
-          fixedColumns.length > 0
-            ? (
-              <VariableSizeGrid
-                ref={fixedGridRef}
-                style={{ overflowY: 'hidden', position: 'absolute', top: 0, left: 0, zIndex: 999, width: fixedColumnsWidth, background: '#fff' }}
-                className="virtual-grid"
-                columnCount={fixedColumns.length}
-                columnWidth={(index: number) => {
-                  const width = Number.parseFloat(String(fixedColumns[index].width)) || 0;
-                  return totalHeight > scrollY && index === fixedColumns.length - 1
-                    ? width - scrollbarSize - 1
-                    : width;
-                }}
-                height={scrollY}
-                rowCount={rawData.length}
-                rowHeight={() => rowHeight}
-                width={fixedColumnsWidth}
-              >
-                { renderCell }
-              </VariableSizeGrid>
-            )
-            : null
-        }
+        { leftFixedCount > 0 ? renderFixedGrid('left', 0, leftFixedCount) : null }
         <VariableSizeGrid
           ref={gridRef}
           className="virtual-grid"
-          columnCount={mergedColumns.length}
-          columnWidth={(index: number) => {
-            const { width } = mergedColumns[index];
-            return totalHeight > scrollY && index === mergedColumns.length - 1
-              ? (width as number) - scrollbarSize - 1
-              : (width as number);
-          }}
+          columnCount={mainColumnCount}
+          columnWidth={mainColumnWidth}
           height={scrollY}
-          rowCount={rawData.length}
-          rowHeight={() => rowHeight}
+          rowCount={items.length}
+          rowHeight={index => getItemHeight(items[index])}
+          estimatedRowHeight={estimatedRowHeight}
+          itemKey={({ columnIndex, rowIndex }) => `${itemKeyOf(items[rowIndex])}:${columnIndex}`}
+          overscanColumnCount={2}
           width={tableWidth}
-          onScroll={({ scrollLeft, scrollTop, scrollUpdateWasRequested }: { scrollLeft: number; scrollTop: number; scrollUpdateWasRequested: boolean }) => {
-            onScroll({ scrollLeft });
-            if (!scrollUpdateWasRequested) {
-              fixedGridRef.current?.scrollTo({ scrollLeft: 0, scrollTop });
+          onItemsRendered={({ visibleRowStartIndex, overscanColumnStartIndex, overscanColumnStopIndex }) => {
+            visibleRowStartIndexRef.current = visibleRowStartIndex;
+            const start = overscanColumnStartIndex - leadingSpacerCount + middleStart - prefixColumnCount;
+            const stop = overscanColumnStopIndex - leadingSpacerCount + middleStart - prefixColumnCount;
+            if (visibleLeafRange?.[0] !== start || visibleLeafRange?.[1] !== stop) {
+              setVisibleLeafRange([start, stop]);
             }
           }}
+          onScroll={({ scrollLeft, scrollTop }: { scrollLeft: number; scrollTop: number }) => {
+            scrollOffsetRef.current = { scrollLeft, scrollTop };
+            // 同步表头横向滚动位置
+            onScroll({ scrollLeft });
+            [leftGridRef, rightGridRef, expandedGridRef].forEach((grid) => {
+              grid.current?.scrollTo({ scrollLeft: 0, scrollTop });
+            });
+          }}
         >
-          { renderCell }
+          { cellRenderer(columnIndexOfMain) }
         </VariableSizeGrid>
+        { rightFixedCount > 0 ? renderFixedGrid('right', gridColumns.length - rightFixedCount, rightFixedCount) : null }
+        {
+          expandable && expandedRowKeys.length > 0
+            ? (
+              // 展开行横跨整个可视区域，不随主网格横向滚动，覆盖层本身不响应鼠标事件
+              <div
+                style={{ position: 'absolute', top: 0, left: 0, zIndex: 1000, pointerEvents: 'none' }}
+                onWheel={forwardWheel}
+              >
+                <VariableSizeGrid<ExpandedRowData>
+                  ref={expandedGridRef}
+                  style={{ overflow: 'hidden' }}
+                  columnCount={1}
+                  columnWidth={() => expandedRowWidth}
+                  height={fixedGridHeight}
+                  rowCount={items.length}
+                  rowHeight={index => getItemHeight(items[index])}
+                  estimatedRowHeight={estimatedRowHeight}
+                  itemKey={({ rowIndex }) => itemKeyOf(items[rowIndex])}
+                  itemData={{
+                    items,
+                    render: item => expandable.expandedRowRender?.(item.record as RecordType, item.index, 0, true),
+                    onResize: onExpandedRowResize as ExpandedRowData['onResize'],
+                  }}
+                  initialScrollTop={scrollOffsetRef.current.scrollTop}
+                  width={expandedRowWidth}
+                >
+                  { ExpandedRow }
+                </VariableSizeGrid>
+              </div>
+            )
+            : null
+        }
       </div>
     );
   };
 
+  // 表头仅渲染固定列与主网格当前渲染的列，汇总行按列序号对齐，存在汇总行时不虚拟化表头
+  const headerColumns = visibleLeafRange && !props.summary
+    ? virtualizeHeaderColumns(mergedColumns, new Set(mergedLeafColumns.filter((column, index) => isFixedLeft(column) || isFixedRight(column) || (index >= visibleLeafRange[0] && index <= visibleLeafRange[1]))))
+    : mergedColumns;
+
   return (
     <ResizeObserver
       onResize={({ width }) => {
@@ -141,8 +673,11 @@ function VirtualTable<RecordType extends DripTableRecordTypeBase>(props: { drive
     >
       <Table
         {...props}
-        columns={mergedColumns}
+        columns={headerColumns}
+        rowSelection={rowSelection && { ...rowSelection, columnWidth: SELECTION_COLUMN_WIDTH }}
+        expandable={expandable && { ...expandable, expandedRowKeys, columnWidth: EXPAND_COLUMN_WIDTH }}
         components={{
+          ...props.components,
           body: renderVirtualList,
         }}
       />
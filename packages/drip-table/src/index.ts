@@ -1,7 +1,12 @@
 export * from './types';
 export { indexValue } from './drip-table/utils';
+export { flattenColumns, isDripTableColumnGroup } from './drip-table/utils/column';
 export { default as builtInComponents } from './drip-table/components';
 export type { DripTableComponentProps, DripTableBuiltInColumnSchema } from './drip-table/components';
+export { default as builtInEditors } from './drip-table/editors';
+export type { DripTableEditor, DripTableEditorProps } from './drip-table/editors';
+export type { DripTableAggregator } from './drip-table/utils/summary';
+export type { DripTableValidator } from './drip-table/utils/validation';
 export type { DripTableProps } from './drip-table';
 export type { DripTableGenericRenderElement } from './components/generic-render';
 export { default, DripTableWrapperContext as DripTableInstance } from './drip-table-wrapper';
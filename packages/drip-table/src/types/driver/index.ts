@@ -38,15 +38,39 @@ export interface DripTableDriver {
       size?: 'large' | 'middle' | 'small';
       danger?: boolean;
       ghost?: boolean;
+      disabled?: boolean;
+      title?: string;
       icon?: React.ReactNode;
+      loading?: boolean;
       onClick?: (event: React.MouseEvent<HTMLElement, MouseEvent>) => void;
     }>;
+    Checkbox: DripTableReactComponent<{
+      checked?: boolean;
+      indeterminate?: boolean;
+      disabled?: boolean;
+      onChange?: (e: { target: { checked?: boolean }; nativeEvent: MouseEvent }) => void;
+    }>;
     Col: DripTableReactComponent<{
       className?: string;
       style?: React.CSSProperties;
       span?: number;
     }>;
     ConfigProvider: DripTableReactComponent<Record<string, unknown>>;
+    DatePicker: DripTableReactComponent<{
+      style?: React.CSSProperties;
+      /**
+       * 按照 format 格式化的日期字符串
+       */
+      value?: string | null;
+      format?: string;
+      showTime?: boolean;
+      allowClear?: boolean;
+      autoFocus?: boolean;
+      defaultOpen?: boolean;
+      placeholder?: string;
+      onChange?: (value: string | null) => void;
+      onOpenChange?: (open: boolean) => void;
+    }>;
     Dropdown: DripTableReactComponent<{
       className?: string;
       trigger?: ('click' | 'hover' | 'contextMenu')[];
@@ -61,7 +85,17 @@ export interface DripTableDriver {
       preview?: boolean;
       fallback?: string;
     }>;
-    Input: {
+    Input: DripTableReactComponent<{
+      style?: React.CSSProperties;
+      value?: string;
+      autoFocus?: boolean;
+      maxLength?: number;
+      placeholder?: string;
+      onChange?: React.ChangeEventHandler<HTMLInputElement>;
+      onBlur?: React.FocusEventHandler<HTMLInputElement>;
+      onPressEnter?: React.KeyboardEventHandler<HTMLInputElement>;
+      onKeyDown?: React.KeyboardEventHandler<HTMLInputElement>;
+    }> & {
       Search: DripTableReactComponent<{
         style?: React.CSSProperties;
         allowClear?: boolean;
@@ -72,7 +106,32 @@ export interface DripTableDriver {
         onChange?: React.ChangeEventHandler<HTMLInputElement>;
         onSearch?: (value: string) => void;
       }>;
+      TextArea: DripTableReactComponent<{
+        style?: React.CSSProperties;
+        value?: string;
+        autoFocus?: boolean;
+        autoSize?: boolean | { minRows?: number; maxRows?: number };
+        maxLength?: number;
+        placeholder?: string;
+        onChange?: React.ChangeEventHandler<HTMLTextAreaElement>;
+        onBlur?: React.FocusEventHandler<HTMLTextAreaElement>;
+        onKeyDown?: React.KeyboardEventHandler<HTMLTextAreaElement>;
+      }>;
     };
+    InputNumber: DripTableReactComponent<{
+      style?: React.CSSProperties;
+      value?: number | null;
+      min?: number;
+      max?: number;
+      step?: number;
+      precision?: number;
+      autoFocus?: boolean;
+      placeholder?: string;
+      onChange?: (value: number | null) => void;
+      onBlur?: React.FocusEventHandler<HTMLInputElement>;
+      onPressEnter?: React.KeyboardEventHandler<HTMLInputElement>;
+      onKeyDown?: React.KeyboardEventHandler<HTMLInputElement>;
+    }>;
     Menu: DripTableReactComponent<{
       onClick?: (data: { key: React.Key; keyPath: React.Key[]; domEvent: MouseEvent }) => void;
     }> & {
@@ -86,10 +145,16 @@ export interface DripTableDriver {
       title?: string;
       content?: React.ReactNode;
     }>;
+    Radio: DripTableReactComponent<{
+      checked?: boolean;
+      disabled?: boolean;
+      onChange?: (e: { target: { checked?: boolean }; nativeEvent: MouseEvent }) => void;
+    }>;
     Result: DripTableReactComponent<{
       status?: 'error';
       title?: string;
-      extra?: string;
+      subTitle?: React.ReactNode;
+      extra?: React.ReactNode;
     }>;
     Row: DripTableReactComponent<{
       style?: React.CSSProperties;
@@ -101,10 +166,17 @@ export interface DripTableDriver {
     Select: (
       <VT extends string | number | (string | number)[]>(props: React.PropsWithChildren<{
         className?: string;
+        style?: React.CSSProperties;
         defaultValue?: string | number;
         mode?: 'multiple';
         value?: VT;
+        allowClear?: boolean;
+        autoFocus?: boolean;
+        defaultOpen?: boolean;
+        placeholder?: string;
         onChange?: (value: VT) => void;
+        onBlur?: React.FocusEventHandler<HTMLElement>;
+        onInputKeyDown?: React.KeyboardEventHandler<HTMLInputElement>;
       }>) => React.ReactElement | null
     )
     & {
@@ -117,6 +189,16 @@ export interface DripTableDriver {
       spinning?: boolean;
       wrapperClassName?: string;
     }>;
+    Switch: DripTableReactComponent<{
+      checked?: boolean;
+      checkedChildren?: React.ReactNode;
+      unCheckedChildren?: React.ReactNode;
+      autoFocus?: boolean;
+      size?: 'default' | 'small';
+      onChange?: (checked: boolean) => void;
+      onBlur?: React.FocusEventHandler<HTMLButtonElement>;
+      onKeyDown?: React.KeyboardEventHandler<HTMLButtonElement>;
+    }>;
     Table: DripTableDriverTable;
     Tag: DripTableReactComponent<{
       style?: React.CSSProperties;
@@ -125,6 +207,7 @@ export interface DripTableDriver {
     Tooltip: DripTableReactComponent<{
       title: React.ReactNode | (() => React.ReactNode);
       placement?: 'top';
+      visible?: boolean;
     }>;
     Typography: {
       Text: DripTableReactComponent<{
@@ -138,6 +221,7 @@ export interface DripTableDriver {
     };
     message: {
       success: (message: string) => void;
+      error: (message: string) => void;
     };
   };
   /**
@@ -146,8 +230,11 @@ export interface DripTableDriver {
   icons: {
     CheckOutlined: DripTableReactComponent<unknown>;
     DownOutlined: DripTableReactComponent<unknown>;
+    DownloadOutlined: DripTableReactComponent<unknown>;
+    MenuOutlined: DripTableReactComponent<unknown>;
     PlusOutlined: DripTableReactComponent<unknown>;
     QuestionCircleOutlined: DripTableReactComponent<unknown>;
+    UpOutlined: DripTableReactComponent<unknown>;
   };
   /**
    * 组件本地化翻译
@@ -6,27 +6,46 @@
  * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
  */
 
-import { DripTableFilters, DripTablePagination, DripTableRecordTypeBase } from '@/types';
+import { DripTableFilters, DripTablePagination, DripTableRecordTypeBase, DripTableSortOrder } from '@/types';
+
+import { DripTableReactComponent } from './component';
+
+export interface DripTableDriverTableSorterResult<RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase> {
+  columnKey?: React.Key;
+  order?: DripTableSortOrder | null;
+  column?: unknown;
+  field?: React.Key | readonly React.Key[];
+  record?: RecordType;
+}
+
+export interface DripTableDriverTableColumn<RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase> {
+  key?: React.Key;
+  width?: string | number;
+  align?: 'left' | 'center' | 'right';
+  className?: string;
+  title?: string | JSX.Element;
+  dataIndex?: string | string[];
+  fixed?: 'left' | 'right' | boolean;
+  ellipsis?: boolean;
+  render?: (value: unknown, record: RecordType, rowIndex: number) => React.ReactNode;
+  filters?: {
+    text: React.ReactNode;
+    value: string | number | boolean;
+  }[];
+  defaultFilteredValue?: React.Key[] | null;
+  filteredValue?: React.Key[] | null;
+  sorter?: boolean;
+  sortOrder?: DripTableSortOrder | null;
+  sortDirections?: DripTableSortOrder[];
+  onHeaderCell?: () => React.ThHTMLAttributes<HTMLTableHeaderCellElement>;
+  children?: DripTableDriverTableColumn<RecordType>[];
+}
 
 export interface DripTableDriverTableProps<RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase> {
   className?: string;
   style?: React.CSSProperties;
   rowKey?: string;
-  columns?: {
-    width?: string | number;
-    align?: 'left' | 'center' | 'right';
-    className?: string;
-    title?: string | JSX.Element;
-    dataIndex?: string | string[];
-    fixed?: 'left' | 'right' | boolean;
-    ellipsis?: boolean;
-    render?: (value: unknown, record: RecordType, rowIndex: number) => React.ReactNode;
-    filters?: {
-      text: React.ReactNode;
-      value: string | number | boolean;
-    }[];
-    defaultFilteredValue?: React.Key[] | null;
-  }[];
+  columns?: DripTableDriverTableColumn<RecordType>[];
   dataSource?: RecordType[];
   pagination?: false | DripTablePagination;
   loading?: boolean;
@@ -55,7 +74,12 @@ export interface DripTableDriverTableProps<RecordType extends DripTableRecordTyp
     fixed?: 'left' | 'right' | boolean;
   };
   rowSelection?: {
+    type?: 'checkbox' | 'radio';
     selectedRowKeys?: React.Key[];
+    preserveSelectedRowKeys?: boolean;
+    columnWidth?: number | string;
+    getCheckboxProps?: (record: RecordType) => { disabled?: boolean };
+    checkStrictly?: boolean;
     onChange?: (selectedKeys: React.Key[], selectedRows: RecordType[]) => void;
   };
   scroll?: {
@@ -64,6 +88,9 @@ export interface DripTableDriverTableProps<RecordType extends DripTableRecordTyp
     scrollToFirstRowOnChange?: boolean;
   };
   components?: {
+    header?: {
+      cell?: React.ComponentType<React.ThHTMLAttributes<HTMLTableHeaderCellElement>>;
+    };
     body?: (data: readonly RecordType[], info: {
       scrollbarSize: number;
       ref: React.Ref<{
@@ -75,11 +102,34 @@ export interface DripTableDriverTableProps<RecordType extends DripTableRecordTyp
       }) => void;
     }) => React.ReactNode;
   };
+  onRow?: (record: RecordType, index?: number) => React.HTMLAttributes<HTMLTableRowElement>;
   title?: (data: readonly RecordType[]) => React.ReactNode;
   footer?: (data: readonly RecordType[]) => React.ReactNode;
-  onChange?: (pagination: DripTablePagination, filters: DripTableFilters) => void;
+  summary?: (data: readonly RecordType[]) => React.ReactNode;
+  onChange?: (
+    pagination: DripTablePagination,
+    filters: DripTableFilters,
+    sorter: DripTableDriverTableSorterResult<RecordType> | DripTableDriverTableSorterResult<RecordType>[],
+  ) => void;
 }
 
 declare function DripTableDriverTable<RecordType extends DripTableRecordTypeBase = DripTableRecordTypeBase>(props: DripTableDriverTableProps<RecordType>): JSX.Element;
 
+declare namespace DripTableDriverTable {
+  const Summary: DripTableReactComponent<{
+    fixed?: boolean | 'top' | 'bottom';
+  }> & {
+    Row: DripTableReactComponent<{
+      className?: string;
+      style?: React.CSSProperties;
+    }>;
+    Cell: DripTableReactComponent<{
+      className?: string;
+      index: number;
+      colSpan?: number;
+      align?: 'left' | 'center' | 'right';
+    }>;
+  };
+}
+
 export type DripTableDriverTable = typeof DripTableDriverTable;
@@ -51,6 +51,18 @@ export interface DripTableColumnSchema<T = string, P extends Record<string, unkn
    * 表格列宽
    */
   width?: string | number;
+  /**
+   * 用户可拖拽调整列宽，不填写时跟随表格 resizable 设置
+   */
+  resizable?: boolean;
+  /**
+   * 拖拽调整列宽时的最小宽度
+   */
+  minWidth?: number;
+  /**
+   * 拖拽调整列宽时的最大宽度
+   */
+  maxWidth?: number;
   /**
    * 表格列水平对齐方式
    */
@@ -82,6 +94,502 @@ export interface DripTableColumnSchema<T = string, P extends Record<string, unkn
    * 默认数据过滤器值
    */
   defaultFilteredValue?: React.Key[] | null;
+  /**
+   * 是否可排序
+   */
+  sortable?: boolean;
+  /**
+   * 默认排序方向
+   */
+  defaultSortOrder?: DripTableSortOrder | null;
+  /**
+   * 排序模式：
+   * {'client'} 前端排序，按照 sortType 比较当前数据源；
+   * {'server'} 服务端排序，仅更新排序状态并触发排序事件；
+   */
+  sorter?: 'client' | 'server';
+  /**
+   * 前端排序数据类型，不填写时根据数据自动判断
+   */
+  sortType?: 'string' | 'number' | 'date';
+  /**
+   * 单元格是否可编辑，不填写时跟随表格 editable 设置
+   */
+  editable?: boolean;
+  /**
+   * 单元格编辑器类型，自定义编辑器以`命名空间::编辑器名称`格式填写，通过 editors 属性传入编辑器库
+   */
+  editor?: DripTableBuiltInEditorType | `${string}::${string}`;
+  /**
+   * 单元格编辑器配置项
+   */
+  editorOptions?: DripTableEditorOptions;
+  /**
+   * 单元格编辑校验规则，全部通过后才提交编辑
+   */
+  validation?: DripTableValidationRule[];
+}
+
+/**
+ * 内置单元格编辑器类型
+ */
+export type DripTableBuiltInEditorType = 'text' | 'textarea' | 'number' | 'select' | 'date' | 'switch';
+
+/**
+ * 单元格编辑器配置项
+ */
+export interface DripTableEditorOptions {
+  /**
+   * 占位提示
+   */
+  placeholder?: string;
+  /**
+   * 最大长度（text、textarea）
+   */
+  maxLength?: number;
+  /**
+   * 最小值（number）
+   */
+  min?: number;
+  /**
+   * 最大值（number）
+   */
+  max?: number;
+  /**
+   * 步长（number）
+   */
+  step?: number;
+  /**
+   * 数值精度（number）
+   */
+  precision?: number;
+  /**
+   * 可选项（select）
+   */
+  options?: { label: string; value: string | number }[];
+  /**
+   * 是否多选（select）
+   */
+  multiple?: boolean;
+  /**
+   * 是否可清空（select、date）
+   */
+  allowClear?: boolean;
+  /**
+   * 日期格式，编辑结果按该格式保存为字符串（date），默认为 YYYY-MM-DD
+   */
+  format?: string;
+  /**
+   * 是否选择时间（date）
+   */
+  showTime?: boolean;
+  /**
+   * 开启时写入的值（switch），默认为 true
+   */
+  checkedValue?: unknown;
+  /**
+   * 关闭时写入的值（switch），默认为 false
+   */
+  uncheckedValue?: unknown;
+  /**
+   * 开启时展示文案（switch）
+   */
+  checkedText?: string;
+  /**
+   * 关闭时展示文案（switch）
+   */
+  uncheckedText?: string;
+  /**
+   * 自定义编辑器配置项
+   */
+  [key: string]: unknown;
+}
+
+/**
+ * 单元格编辑校验规则，同一条规则中配置的条件需全部满足
+ */
+export interface DripTableValidationRule {
+  /**
+   * 是否必填，空字符串、空数组视为未填写
+   */
+  required?: boolean;
+  /**
+   * 最小值（数字）或最小长度（字符串、数组）
+   */
+  min?: number;
+  /**
+   * 最大值（数字）或最大长度（字符串、数组）
+   */
+  max?: number;
+  /**
+   * 正则表达式
+   */
+  pattern?: string;
+  /**
+   * 可选值范围
+   */
+  enum?: (string | number | boolean | null)[];
+  /**
+   * 通过 props.validators 注册的自定义校验函数名，校验函数可返回 Promise 进行异步校验
+   */
+  validator?: string;
+  /**
+   * 传递给自定义校验函数的参数
+   */
+  params?: unknown;
+  /**
+   * 校验失败提示文案，不填写时使用默认提示
+   */
+  message?: string;
+}
+
+/**
+ * 行编辑草稿
+ */
+export interface DripTableRowDraft<RecordType = DripTableRecordTypeBase> {
+  /**
+   * 进入行编辑时的行数据
+   */
+  record: RecordType;
+  /**
+   * 编辑中的行数据
+   */
+  draft: RecordType;
+}
+
+/**
+ * 数据编辑记录，记录一次提交中同一行各字段的修改
+ */
+export interface DripTableEditPatch {
+  /**
+   * 行主键
+   */
+  rowKey: string;
+  /**
+   * 字段修改
+   */
+  changes: {
+    /**
+     * 字段数据索引
+     */
+    dataIndex: string | string[];
+    /**
+     * 修改前的值
+     */
+    from: unknown;
+    /**
+     * 修改后的值
+     */
+    to: unknown;
+  }[];
+}
+
+/**
+ * 单元格编辑校验失败信息
+ */
+export interface DripTableValidationError<RecordType = DripTableRecordTypeBase> {
+  /**
+   * 列 key
+   */
+  columnKey: string;
+  /**
+   * 列数据索引
+   */
+  dataIndex: string | string[];
+  /**
+   * 行数据
+   */
+  record: RecordType;
+  /**
+   * 未通过校验的值
+   */
+  value: unknown;
+  /**
+   * 校验失败提示文案
+   */
+  message: string;
+}
+
+/**
+ * 树形数据设置
+ */
+export interface DripTableTreeSchema {
+  /**
+   * 子节点数据键名，默认为 children
+   */
+  childrenKey?: string;
+  /**
+   * 每一层级的缩进宽度，默认为 15
+   */
+  indentSize?: number;
+  /**
+   * 是否懒加载子节点：展开存在子节点（hasChildrenKey 为真）且尚未加载子节点的行时通过 onLoadChildren 加载
+   */
+  lazy?: boolean;
+  /**
+   * 懒加载模式下标识行存在子节点的键名，默认为 hasChildren
+   */
+  hasChildrenKey?: string;
+  /**
+   * 选中、取消选中父节点时是否级联至子节点
+   */
+  cascadeSelection?: boolean;
+}
+
+/**
+ * 界面文案设置，文案中可通过 {{变量名}} 引用变量
+ */
+export interface DripTableTexts {
+  /**
+   * 数据加载失败标题
+   */
+  errorTitle?: string;
+  /**
+   * 数据加载失败描述，变量：message 错误信息
+   */
+  errorSubTitle?: string;
+  /**
+   * 数据加载失败重新加载按钮
+   */
+  errorReload?: string;
+  /**
+   * 滚动加载、加载更多模式下正在加载
+   */
+  loadMoreLoading?: string;
+  /**
+   * 滚动加载、加载更多模式下加载失败重试按钮
+   */
+  loadMoreRetry?: string;
+  /**
+   * 加载更多按钮
+   */
+  loadMore?: string;
+  /**
+   * 滚动加载、加载更多模式下没有更多数据
+   */
+  loadMoreFinished?: string;
+  /**
+   * 粘贴失败：超出表格范围
+   */
+  pasteOutOfRange?: string;
+  /**
+   * 粘贴失败：列不可编辑
+   */
+  pasteNotEditable?: string;
+  /**
+   * 粘贴失败：行正在编辑
+   */
+  pasteRowEditing?: string;
+  /**
+   * 粘贴失败：数据源中未找到该行
+   */
+  pasteRowNotFound?: string;
+  /**
+   * 粘贴失败：不是有效的数字，变量：text 粘贴的文本
+   */
+  pasteInvalidNumber?: string;
+  /**
+   * 粘贴失败：无法识别的开关值，变量：text 粘贴的文本
+   */
+  pasteInvalidSwitch?: string;
+  /**
+   * 粘贴失败：选项不在可选范围内，变量：label 无法匹配的选项
+   */
+  pasteInvalidOption?: string;
+  /**
+   * 虚拟滚动模式下展开行按钮的无障碍标签
+   */
+  expandRow?: string;
+  /**
+   * 虚拟滚动模式下收起行按钮的无障碍标签
+   */
+  collapseRow?: string;
+  /**
+   * 导出按钮
+   */
+  exportButton?: string;
+  /**
+   * 导出失败提示
+   */
+  exportFailed?: string;
+  /**
+   * 展示列选择器上移列按钮
+   */
+  moveColumnUp?: string;
+  /**
+   * 展示列选择器下移列按钮
+   */
+  moveColumnDown?: string;
+  /**
+   * 选中行统计
+   */
+  selectionCount?: string;
+  /**
+   * 选中行统计跨页全选操作
+   */
+  selectAllPages?: string;
+  /**
+   * 选中行统计清空选择操作
+   */
+  selectionClear?: string;
+  /**
+   * 树形数据展开全部按钮
+   */
+  treeExpandAll?: string;
+  /**
+   * 树形数据收起全部按钮
+   */
+  treeCollapseAll?: string;
+}
+
+/**
+ * 虚拟滚动设置
+ */
+export interface DripTableVirtualSchema {
+  /**
+   * 未测量行的预估行高，行渲染后按照单元格内容实际高度调整
+   */
+  estimatedRowHeight?: number;
+}
+
+/**
+ * 选择栏配置
+ */
+export interface DripTableRowSelectionSchema {
+  /**
+   * 选择类型：{'checkbox'} 多选；{'radio'} 单选
+   */
+  type?: 'checkbox' | 'radio';
+  /**
+   * 禁用行选择的表达式，变量 rec 为当前行数据，计算结果为真时禁用该行选择，如 `rec.status === 'locked'`
+   */
+  disabled?: string;
+  /**
+   * 是否支持跨页全选（仅多选）：全选所有页数据（包括未加载的服务端数据）后，以排除列表记录被取消选中的行
+   */
+  allPages?: boolean;
+}
+
+/**
+ * 单元格粘贴失败信息
+ */
+export interface DripTablePasteError<RecordType = DripTableRecordTypeBase> {
+  /**
+   * 目标单元格在当前页中的行号
+   */
+  rowIndex: number;
+  /**
+   * 目标列 key，超出表格列范围时为空
+   */
+  columnKey?: string;
+  /**
+   * 目标行数据，超出表格行范围时为空
+   */
+  record?: RecordType;
+  /**
+   * 粘贴的文本
+   */
+  text: string;
+  /**
+   * 粘贴失败类型：{'out-of-range'} 超出表格范围；{'not-editable'} 列不可编辑；{'row-editing'} 行正在编辑；{'not-found'} 数据源中未找到该行；{'parse'} 文本无法转换为单元格值；{'validation'} 未通过列校验
+   */
+  reason: 'out-of-range' | 'not-editable' | 'row-editing' | 'not-found' | 'parse' | 'validation';
+  /**
+   * 粘贴失败原因，文案可通过 schema.texts 设置
+   */
+  message: string;
+}
+
+/**
+ * 列分组定义，用于生成多级表头
+ */
+export interface DripTableColumnGroupSchema<ColumnSchema = DripTableColumnSchema> {
+  /**
+   * 唯一标识，不做展示用，React 需要的 key。
+   */
+  key: string;
+  /**
+   * 分组表头
+   */
+  title: string;
+  /**
+   * 分组表头说明
+   */
+  description?: string;
+  /**
+   * 分组表头水平对齐方式
+   */
+  align?: 'left' | 'center' | 'right';
+  /**
+   * 是否固定分组，子列未设置时继承该值
+   */
+  fixed?: 'left' | 'right' | boolean;
+  /**
+   * 用户可控制该分组显示隐藏
+   */
+  hidable?: boolean;
+  /**
+   * 分组下的列或子分组
+   */
+  children: (ColumnSchema | DripTableColumnGroupSchema<ColumnSchema>)[];
+}
+
+/**
+ * 汇总行单元格配置
+ */
+export interface DripTableSummaryColumnSchema {
+  /**
+   * 聚合方式：内置 'sum' | 'avg' | 'min' | 'max' | 'count' | 'distinct'，或通过 props.aggregators 注册的自定义函数名
+   */
+  aggregate?: string;
+  /**
+   * 固定文案，设置后不再进行聚合计算
+   */
+  text?: string;
+  /**
+   * 数值保留小数位数
+   */
+  precision?: number;
+  /**
+   * 前缀文案，不填写时沿用文本组件列的前缀
+   */
+  prefix?: string;
+  /**
+   * 后缀文案，不填写时沿用文本组件列的后缀
+   */
+  suffix?: string;
+}
+
+/**
+ * 汇总行配置
+ */
+export interface DripTableSummaryRowSchema {
+  /**
+   * 汇总范围：
+   * {'page'} 当前页数据；
+   * {'all'}  全部数据（前端数据模式下为过滤、搜索后的全部数据，否则为传入的数据源）；
+   */
+  scope?: 'page' | 'all';
+  /**
+   * 各列汇总配置，键名为列 key
+   */
+  columns: Record<string, DripTableSummaryColumnSchema>;
+}
+
+/**
+ * 汇总区域配置
+ */
+export interface DripTableSummarySchema {
+  /**
+   * 是否固定汇总行：
+   * {true | 'bottom'} 固定在表格底部；
+   * {'top'}           固定在表格顶部；
+   */
+  fixed?: boolean | 'top' | 'bottom';
+  /**
+   * 汇总行
+   */
+  rows: DripTableSummaryRowSchema[];
 }
 
 export type DripTableID = string | number | undefined;
@@ -148,8 +656,16 @@ export interface DripTableSchema<
    * 是否展示分页以及配置
    */
   pagination?: false | {
+    /**
+     * 分页模式：{'page'} 页码分页；{'cursor'} 游标分页；{'infinite'} 滚动到底部时自动加载更多；{'load-more'} 点击底部按钮加载更多
+     */
+    mode?: 'page' | 'cursor' | 'infinite' | 'load-more';
+    /**
+     * 滚动加载模式下距离底部多少像素时开始加载，默认为 100
+     */
+    threshold?: number;
     size?: 'small' | 'default';
-    pageSize: number;
+    pageSize?: number;
     position?: 'bottomLeft' | 'bottomCenter' | 'bottomRight';
     showTotal?: boolean | string;
     total?: number;
@@ -172,30 +688,79 @@ export interface DripTableSchema<
     scrollToFirstRowOnChange?: boolean;
   };
   /**
-   * 是否支持选择栏
+   * 是否支持选择栏以及选择栏配置
+   */
+  rowSelection?: boolean | DripTableRowSelectionSchema;
+  /**
+   * 是否支持拖拽行调整顺序（虚拟滚动模式下不生效），设置 sortKey 时拖拽后按新顺序从 1 开始回写排序值
    */
-  rowSelection?: boolean;
+  rowDraggable?: boolean | {
+    /**
+     * 回写排序值的字段名
+     */
+    sortKey?: string;
+  };
   /**
    * 是否可通过点击进入编辑模式
    */
   editable?: boolean;
+  /**
+   * 单元格模板表达式执行模式：
+   * {'legacy'} 使用 new Function 执行，兼容任意 JavaScript 代码；
+   * {'safe'}   使用安全表达式引擎，仅支持属性访问、运算与内置辅助函数，兼容严格 CSP。
+   */
+  expressionMode?: DripTableExpressionMode;
   /**
    * 是否平均列宽
    */
   ellipsis?: boolean;
   /**
-   * 是否开启虚拟滚动
+   * 用户可拖拽调整所有列宽
+   */
+  resizable?: boolean;
+  /**
+   * 用户可拖拽表头调整列顺序
+   */
+  columnReorderable?: boolean;
+  /**
+   * 数据处理模式：
+   * {'server'} 数据源由使用方处理，表格仅展示传入的数据；
+   * {'client'} 前端数据模式，表格对数据源依次进行过滤、搜索、排序、分页处理；
    */
-  virtual?: boolean;
+  dataMode?: 'client' | 'server';
+  /**
+   * 是否开启虚拟滚动以及虚拟滚动设置
+   */
+  virtual?: boolean | DripTableVirtualSchema;
+  /**
+   * 树形数据设置，父子行共用表格列
+   */
+  tree?: DripTableTreeSchema;
+  /**
+   * 是否开启键盘导航：方向键、Tab、Home/End、PageUp/PageDown 移动焦点单元格，Enter 编辑，空格切换行选中
+   */
+  keyboardNavigation?: boolean;
+  /**
+   * 是否开启单元格区域选择：鼠标拖拽或 Shift + 方向键选择矩形区域，支持复制粘贴
+   */
+  rangeSelection?: boolean;
+  /**
+   * 界面文案设置
+   */
+  texts?: DripTableTexts;
   /**
    * 虚拟列表滚动高度
    * @deprecated 请使用 scroll.y
    */
   scrollY?: number;
   /**
-   * 列定义
+   * 列定义，可通过列分组嵌套生成多级表头
+   */
+  columns: (CustomColumnSchema | DripTableBuiltInColumnSchema | DripTableColumnGroupSchema<CustomColumnSchema | DripTableBuiltInColumnSchema>)[];
+  /**
+   * 汇总行设置
    */
-  columns: (CustomColumnSchema | DripTableBuiltInColumnSchema)[];
+  summary?: DripTableSummarySchema;
   /**
    * 表格行主键
    */
@@ -266,6 +831,191 @@ export interface DripTablePagination {
 
 export type DripTableFilters = Record<string, (React.Key | boolean)[] | null>;
 
+export type DripTableSortOrder = 'ascend' | 'descend';
+
+/**
+ * 远程数据源请求参数
+ */
+export interface DripTableFetcherParams {
+  /**
+   * 当前页码
+   */
+  page: number;
+  /**
+   * 每页条数
+   */
+  pageSize: number;
+  /**
+   * 过滤器状态
+   */
+  filters: DripTableFilters;
+  /**
+   * 排序状态
+   */
+  sorter: DripTableSorter | null;
+  /**
+   * 搜索状态
+   */
+  search: { searchKey?: number | string; searchStr: string };
+  /**
+   * 游标分页模式下当前页游标，首页为 null
+   */
+  cursor: string | null;
+  /**
+   * 请求中断信号，新请求发起或组件卸载时中断
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * 远程数据源请求结果
+ */
+export interface DripTableFetcherResult<RecordType> {
+  /**
+   * 当前页数据
+   */
+  list: RecordType[];
+  /**
+   * 数据总条数，游标分页模式下为预估总条数，可不返回
+   */
+  total?: number;
+  /**
+   * 游标分页模式下上一页游标，仅在不存在已访问页面时用于返回上一页
+   */
+  prevCursor?: string | null;
+  /**
+   * 游标分页模式下下一页游标，为空时表示没有下一页
+   */
+  nextCursor?: string | null;
+}
+
+/**
+ * 游标分页状态
+ */
+export interface DripTableCursorPagination {
+  /**
+   * 当前页游标，首页为 null
+   */
+  cursor: string | null;
+  /**
+   * 上一页游标，仅在不存在已访问页面时用于返回上一页
+   */
+  prevCursor: string | null;
+  /**
+   * 下一页游标，为 null 时表示没有下一页
+   */
+  nextCursor: string | null;
+  /**
+   * 已访问页面的游标栈，下一页时压入当前页游标，上一页时弹出
+   */
+  history: (string | null)[];
+  /**
+   * 预估数据总条数
+   */
+  estimatedTotal?: number;
+}
+
+/**
+ * 远程数据源请求函数
+ */
+export type DripTableFetcher<RecordType> = (params: DripTableFetcherParams) => Promise<DripTableFetcherResult<RecordType>>;
+
+/**
+ * 单元格模板表达式执行模式
+ */
+export type DripTableExpressionMode = 'legacy' | 'safe';
+
+/**
+ * 表格数据导出格式
+ */
+export type DripTableExportFormat = 'csv' | 'xlsx';
+
+/**
+ * 表格数据导出设置
+ */
+export interface DripTableExportOptions<RecordType = DripTableRecordTypeBase> {
+  /**
+   * 导出文件名（不含扩展名），默认为 schema.id
+   */
+  filename?: string;
+  /**
+   * 仅导出已选中的行
+   */
+  selectedOnly?: boolean;
+  /**
+   * 导出所有页数据：前端数据模式导出过滤、搜索、排序后的全部数据，
+   * 其余情况通过 loadPage 或表格 fetcher 逐页加载
+   */
+  allPages?: boolean;
+  /**
+   * 导出所有页数据时使用的分页加载函数，默认使用表格 fetcher
+   */
+  loadPage?: (params: Omit<DripTableFetcherParams, 'signal'>) => Promise<DripTableFetcherResult<RecordType>>;
+  /**
+   * 逐页加载时的每页条数，默认为当前每页条数
+   */
+  loadPageSize?: number;
+  /**
+   * 同时导出用户隐藏的列
+   */
+  includeHidden?: boolean;
+  /**
+   * 是否触发浏览器下载，默认为 true
+   */
+  download?: boolean;
+}
+
+/**
+ * 表格视图状态持久化存储适配器，读写函数可返回 Promise
+ */
+export interface DripTablePersistenceStorage {
+  /**
+   * 读取存储内容
+   * @param key 存储键名
+   * @returns 存储内容，不存在时返回 null
+   */
+  getItem: (key: string) => string | null | Promise<string | null>;
+  /**
+   * 写入存储内容
+   * @param key 存储键名
+   * @param value 存储内容
+   */
+  setItem: (key: string, value: string) => void | Promise<void>;
+}
+
+/**
+ * 表格视图状态持久化设置
+ */
+export interface DripTablePersistence {
+  /**
+   * 存储适配器，默认为 localStorage
+   */
+  storage?: 'localStorage' | 'sessionStorage' | DripTablePersistenceStorage;
+  /**
+   * 存储键名，默认根据 schema.id 生成，二者均未设置时不进行持久化
+   */
+  key?: string;
+  /**
+   * 存储版本号，与已存储版本不一致时丢弃已存储的视图状态
+   */
+  version?: string | number;
+  /**
+   * 读取或写入存储失败时触发，未设置时忽略失败
+   */
+  onError?: (error: unknown, operation: 'read' | 'write') => void;
+}
+
+export interface DripTableSorter {
+  /**
+   * 排序列键
+   */
+  key: string;
+  /**
+   * 排序方向
+   */
+  order: DripTableSortOrder;
+}
+
 export type { DripTableDriver, DripTableReactComponent, DripTableReactComponentProps } from './driver';
 
 export type EventLike<T = { type: string }> = T extends { type: string } ? T : never;
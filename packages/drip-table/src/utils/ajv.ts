@@ -129,6 +129,36 @@ const getDripTablePropsAjvSchema = (options?: AjvOptions) => {
               selectorButtonType: { enum: ['ghost', 'primary', 'dashed', 'link', 'text', 'default'] },
             },
           },
+          {
+            properties: {
+              type: { const: 'export-button' },
+              exportButtonText: { type: 'string' },
+              exportButtonType: { enum: ['ghost', 'primary', 'dashed', 'link', 'text', 'default'] },
+              showIcon: { type: 'boolean' },
+              formats: {
+                type: 'array',
+                items: { enum: ['csv', 'xlsx'] },
+              },
+              filename: { type: 'string' },
+              selectedOnly: { type: 'boolean' },
+              allPages: { type: 'boolean' },
+              includeHidden: { type: 'boolean' },
+            },
+          },
+          {
+            properties: {
+              type: { const: 'selection-summary' },
+              selectAllPagesText: { type: 'string' },
+              clearText: { type: 'string' },
+            },
+          },
+          {
+            properties: {
+              type: { const: 'tree-expand-button' },
+              expandText: { type: 'string' },
+              collapseText: { type: 'string' },
+            },
+          },
         ],
       },
     };
@@ -163,6 +193,8 @@ const getDripTablePropsAjvSchema = (options?: AjvOptions) => {
             { type: 'boolean' },
             {
               properties: {
+                mode: { enum: ['page', 'cursor', 'infinite', 'load-more'] },
+                threshold: { type: 'number' },
                 size: { enum: ['small', 'default'] },
                 pageSize: { type: 'number' },
                 position: { enum: ['bottomLeft', 'bottomCenter', 'bottomRight'] },
@@ -183,20 +215,169 @@ const getDripTablePropsAjvSchema = (options?: AjvOptions) => {
             scrollToFirstRowOnChange: { type: 'boolean' },
           },
         },
-        rowSelection: { type: 'boolean' },
+        rowSelection: {
+          anyOf: [
+            { type: 'boolean' },
+            {
+              properties: {
+                type: { enum: ['checkbox', 'radio'] },
+                disabled: { type: 'string' },
+                allPages: { type: 'boolean' },
+              },
+              additionalProperties,
+            },
+          ],
+        },
+        rowDraggable: {
+          anyOf: [
+            { type: 'boolean' },
+            {
+              properties: {
+                sortKey: { type: 'string' },
+              },
+              additionalProperties,
+            },
+          ],
+        },
         editable: { type: 'boolean' },
+        expressionMode: { enum: ['legacy', 'safe'] },
         ellipsis: { type: 'boolean' },
-        virtual: { type: 'boolean' },
+        resizable: { type: 'boolean' },
+        columnReorderable: { type: 'boolean' },
+        dataMode: { enum: ['client', 'server'] },
+        tree: {
+          properties: {
+            childrenKey: { type: 'string' },
+            indentSize: { type: 'number' },
+            lazy: { type: 'boolean' },
+            hasChildrenKey: { type: 'string' },
+            cascadeSelection: { type: 'boolean' },
+          },
+          additionalProperties,
+        },
+        virtual: {
+          anyOf: [
+            { type: 'boolean' },
+            {
+              properties: {
+                estimatedRowHeight: { type: 'number' },
+              },
+              additionalProperties,
+            },
+          ],
+        },
+        keyboardNavigation: { type: 'boolean' },
+        rangeSelection: { type: 'boolean' },
+        texts: {
+          properties: {
+            errorTitle: { type: 'string' },
+            errorSubTitle: { type: 'string' },
+            errorReload: { type: 'string' },
+            loadMoreLoading: { type: 'string' },
+            loadMoreRetry: { type: 'string' },
+            loadMore: { type: 'string' },
+            loadMoreFinished: { type: 'string' },
+            pasteOutOfRange: { type: 'string' },
+            pasteNotEditable: { type: 'string' },
+            pasteRowEditing: { type: 'string' },
+            pasteRowNotFound: { type: 'string' },
+            pasteInvalidNumber: { type: 'string' },
+            pasteInvalidSwitch: { type: 'string' },
+            pasteInvalidOption: { type: 'string' },
+            expandRow: { type: 'string' },
+            collapseRow: { type: 'string' },
+            exportButton: { type: 'string' },
+            exportFailed: { type: 'string' },
+            moveColumnUp: { type: 'string' },
+            moveColumnDown: { type: 'string' },
+            selectionCount: { type: 'string' },
+            selectAllPages: { type: 'string' },
+            selectionClear: { type: 'string' },
+            treeExpandAll: { type: 'string' },
+            treeCollapseAll: { type: 'string' },
+          },
+          additionalProperties,
+        },
         scrollY: { type: 'number' },
         columns: {
           type: 'array',
-          items: {},
+          items: { $ref: '#/definitions/column' },
+        },
+        summary: {
+          properties: {
+            fixed: {
+              anyOf: [
+                { enum: ['top', 'bottom'] },
+                { type: 'boolean' },
+              ],
+            },
+            rows: {
+              type: 'array',
+              items: {
+                properties: {
+                  scope: { enum: ['page', 'all'] },
+                  columns: {
+                    type: 'object',
+                    additionalProperties: {
+                      properties: {
+                        aggregate: { type: 'string' },
+                        text: { type: 'string' },
+                        precision: { type: 'number' },
+                        prefix: { type: 'string' },
+                        suffix: { type: 'string' },
+                      },
+                      additionalProperties,
+                    },
+                  },
+                },
+                required: ['columns'],
+                additionalProperties,
+              },
+            },
+          },
+          required: ['rows'],
+          additionalProperties,
         },
         rowKey: { type: 'string' },
         subtable: {}, // （不校验子表，因为 ajv 不支持循环引用）
       },
       required: ['columns'],
       additionalProperties,
+      // 树形数据暂不支持与虚拟滚动同时使用
+      if: { required: ['tree'] },
+      then: {
+        properties: {
+          virtual: { const: false },
+        },
+      },
+      definitions: {
+        // 列分组递归校验，普通列在渲染时按组件 Schema 校验
+        column: {
+          if: { required: ['children'] },
+          then: {
+            properties: {
+              key: { type: 'string' },
+              title: { type: 'string' },
+              description: { type: 'string' },
+              align: { enum: ['left', 'center', 'right'] },
+              fixed: {
+                anyOf: [
+                  { enum: ['left', 'right'] },
+                  { type: 'boolean' },
+                ],
+              },
+              hidable: { type: 'boolean' },
+              children: {
+                type: 'array',
+                items: { $ref: '#/definitions/column' },
+              },
+            },
+            required: ['key', 'title', 'children'],
+            additionalProperties,
+          },
+          else: {},
+        },
+      },
     };
     const dripTableSubtableSchema: DripTablePropsAjvSchemaCacheItem['subtable'] = {
       ...dripTableSchema,
@@ -232,11 +413,58 @@ const getDripTablePropsAjvSchema = (options?: AjvOptions) => {
         style: { typeof: 'object' },
         selectedRowKeys: {},
         displayColumnKeys: {},
+        columnOrder: {
+          type: 'array',
+          items: { type: 'string' },
+        },
         total: { type: 'number' },
         currentPage: { type: 'number' },
+        cursorPagination: {
+          properties: {
+            prevCursor: { type: ['string', 'null'] },
+            nextCursor: { type: ['string', 'null'] },
+            estimatedTotal: { type: 'number' },
+          },
+        },
         loading: { type: 'boolean' },
+        dataPredicates: {
+          properties: {
+            filter: { typeof: 'object' },
+            search: { typeof: 'object' },
+          },
+        },
+        aggregators: { typeof: 'object' },
+        fetcher: { instanceof: 'Function' },
+        fetcherOptions: {
+          properties: {
+            debounce: { type: 'number' },
+            retryTimes: { type: 'number' },
+            retryDelay: { type: 'number' },
+          },
+        },
+        persistence: {
+          properties: {
+            storage: {
+              anyOf: [
+                { enum: ['localStorage', 'sessionStorage'] },
+                {
+                  properties: {
+                    getItem: { instanceof: 'Function' },
+                    setItem: { instanceof: 'Function' },
+                  },
+                  required: ['getItem', 'setItem'],
+                },
+              ],
+            },
+            key: { type: 'string' },
+            version: { type: ['string', 'number'] },
+            onError: { instanceof: 'Function' },
+          },
+        },
         ...subtablePropsSchema.properties,
         components: {},
+        editors: {},
+        validators: { typeof: 'object' },
         slots: {},
         ajv: {
           anyOf: [
@@ -281,13 +509,25 @@ const getDripTablePropsAjvSchema = (options?: AjvOptions) => {
         onRowClick: { instanceof: 'Function' },
         onRowDoubleClick: { instanceof: 'Function' },
         onSelectionChange: { instanceof: 'Function' },
+        onSelectAllPagesChange: { instanceof: 'Function' },
         onSearch: { instanceof: 'Function' },
         onInsertButtonClick: { instanceof: 'Function' },
         onFilterChange: { instanceof: 'Function' },
         onPageChange: { instanceof: 'Function' },
+        onLoadMore: { instanceof: 'Function' },
+        onCursorChange: { instanceof: 'Function' },
+        onLoadChildren: { instanceof: 'Function' },
+        onLoadChildrenError: { instanceof: 'Function' },
+        onSortChange: { instanceof: 'Function' },
         onChange: { instanceof: 'Function' },
         onDataSourceChange: { instanceof: 'Function' },
+        onValidationError: { instanceof: 'Function' },
+        onPasteError: { instanceof: 'Function' },
+        onRowSave: { instanceof: 'Function' },
         onDisplayColumnKeysChange: { instanceof: 'Function' },
+        onColumnWidthChange: { instanceof: 'Function' },
+        onColumnOrderChange: { instanceof: 'Function' },
+        onRowOrderChange: { instanceof: 'Function' },
         onEvent: { instanceof: 'Function' },
         __PARENT_INFO__: { type: 'object' },
       },
@@ -382,6 +622,9 @@ export const validateDripTableColumnSchema = (data: unknown, schema?: SchemaObje
       key: { type: 'string' },
       title: { type: 'string' },
       width: { typeof: ['string', 'number'] },
+      resizable: { type: 'boolean' },
+      minWidth: { type: 'number' },
+      maxWidth: { type: 'number' },
       align: { enum: ['left', 'center', 'right'] },
       verticalAlign: { enum: ['top', 'middle', 'bottom'] },
       dataIndex: {
@@ -410,6 +653,60 @@ export const validateDripTableColumnSchema = (data: unknown, schema?: SchemaObje
         },
       },
       defaultFilteredValue: { typeof: ['string', 'number', 'object'] },
+      sortable: { type: 'boolean' },
+      defaultSortOrder: { enum: ['ascend', 'descend', null] },
+      sorter: { enum: ['client', 'server'] },
+      sortType: { enum: ['string', 'number', 'date'] },
+      editable: { type: 'boolean' },
+      editor: {
+        anyOf: [
+          { enum: ['text', 'textarea', 'number', 'select', 'date', 'switch'] },
+          { type: 'string', pattern: '^.+::.+$' },
+        ],
+      },
+      editorOptions: {
+        properties: {
+          placeholder: { type: 'string' },
+          maxLength: { type: 'number' },
+          min: { type: 'number' },
+          max: { type: 'number' },
+          step: { type: 'number' },
+          precision: { type: 'number' },
+          options: {
+            type: 'array',
+            items: {
+              properties: {
+                label: { type: 'string' },
+                value: { typeof: ['string', 'number'] },
+              },
+              required: ['label', 'value'],
+            },
+          },
+          multiple: { type: 'boolean' },
+          allowClear: { type: 'boolean' },
+          format: { type: 'string' },
+          showTime: { type: 'boolean' },
+          checkedValue: {},
+          uncheckedValue: {},
+          checkedText: { type: 'string' },
+          uncheckedText: { type: 'string' },
+        },
+      },
+      validation: {
+        type: 'array',
+        items: {
+          properties: {
+            required: { type: 'boolean' },
+            min: { type: 'number' },
+            max: { type: 'number' },
+            pattern: { type: 'string' },
+            enum: { type: 'array', items: { type: ['string', 'number', 'boolean', 'null'] } },
+            validator: { type: 'string' },
+            params: {},
+            message: { type: 'string' },
+          },
+        },
+      },
     },
     required: [
       'component',
@@ -0,0 +1,63 @@
+/**
+ * This file is part of the drip-table project.
+ * @link     : https://drip-table.jd.com/
+ * @author   : Emil Zhai (root@derzh.com)
+ * @modifier : Emil Zhai (root@derzh.com)
+ * @copyright: Copyright (c) 2021 JD Network Technology Co., Ltd.
+ */
+
+/**
+ * 等待指定时间，可通过中断信号提前结束
+ * @param ms 等待毫秒数
+ * @param signal 中断信号
+ * @returns 等待结束 Promise，中断时 reject
+ */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new Error('Aborted'));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new Error('Aborted'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort);
+});
+
+/**
+ * 发起请求，失败时按照递增间隔重试
+ * @param request 请求函数
+ * @param options 重试选项
+ * @returns 请求结果
+ */
+export const requestWithRetry = <T>(
+  request: (signal: AbortSignal) => Promise<T>,
+  options: {
+    /**
+     * 中断信号，中断后不再重试
+     */
+    signal: AbortSignal;
+    /**
+     * 失败重试次数
+     */
+    retryTimes: number;
+    /**
+     * 重试间隔毫秒数，第 N 次重试等待 N 倍间隔
+     */
+    retryDelay: number;
+  },
+): Promise<T> => {
+  const attempt = (times: number): Promise<T> => request(options.signal)
+    .catch(async (error: unknown) => {
+      if (options.signal.aborted || times >= options.retryTimes) {
+        throw error;
+      }
+      await delay(options.retryDelay * (times + 1), options.signal);
+      return attempt(times + 1);
+    });
+  return attempt(0);
+};